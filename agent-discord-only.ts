@@ -1,10 +1,11 @@
 import { config } from 'dotenv';
 config({ path: '.env.local' });
 
-import { openai } from "@ai-sdk/openai";
 import { streamText } from "ai";
 import { Agent } from "blink";
 import { Client, Events, GatewayIntentBits } from "discord.js";
+import { getModelConfig } from "./models";
+import { getLanguageModel, describeModel } from "./llm";
 
 const agent = new Agent();
 
@@ -40,10 +41,10 @@ Examples of your style:
 
 Be natural, friendly, and genuinely interested. Match the energy of their intro.`;
 
-// Generate response using GPT-4
+// Generate response using the welcome model (configured in models.ts)
 async function generateResponse(introMessage: string) {
   const result = await streamText({
-    model: openai("gpt-4o"),
+    model: getLanguageModel(getModelConfig('welcome')),
     system: SYSTEM_PROMPT,
     messages: [
       {
@@ -52,7 +53,7 @@ async function generateResponse(introMessage: string) {
       },
     ],
     temperature: 0.8,
-    maxTokens: 150,
+    maxOutputTokens: 150,
   });
 
   let response = "";
@@ -80,7 +81,7 @@ discordClient.on(Events.MessageCreate, async (message) => {
 
   console.log(`\n📨 New intro from ${message.author.username}:`);
   console.log(`   "${message.content}"`);
-  console.log("\n🤖 Generating response with GPT-4...");
+  console.log(`\n🤖 Generating response with ${describeModel('welcome')}...`);
 
   try {
     const suggestedResponse = await generateResponse(message.content);
@@ -108,7 +109,7 @@ discordClient.once(Events.ClientReady, (readyClient) => {
 
 (async () => {
   console.log("🚀 Starting Discord Intro Agent (Test Mode)...");
-  console.log("   Using OpenAI GPT-4 for response generation");
+  console.log(`   Using ${describeModel('welcome')} for response generation`);
   console.log("   Responses will post AUTOMATICALLY (no approval)");
   console.log("   Connecting to Discord...");
   await discordClient.login(process.env.DISCORD_TOKEN);
@@ -1,15 +1,17 @@
 import { config } from 'dotenv';
 config({ path: '.env.local' });
 
-import { Client, Events, GatewayIntentBits } from "discord.js";
-import { ANTHROPIC_CONFIG, COMMUNITY_RESPONSE_PROMPT } from "./models";
+import { ChannelType, Client, DiscordAPIError, Events, RESTJSONErrorCodes, GatewayIntentBits, Partials, SnowflakeUtil, type AnyThreadChannel, type Message, type MessageReaction, type PartialMessage, type PartialMessageReaction, type TextBasedChannel } from "discord.js";
+import { COMMUNITY_RESPONSE_PROMPT, DRAFT_CONFIDENCE_PROMPT, FOLLOW_UP_RESPONSE_PROMPT, RESPONSE_TONES, type ResponseTone } from "./models";
 import { WebClient } from "@slack/web-api";
 import { SocketModeClient } from "@slack/socket-mode";
-import { getChannelConfig, getChannels } from "./channels";
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { generateText } from 'ai';
+import { getChannelConfig, getChannels, DELIVERY_MODE_LABELS, type ApprovalPolicy, type ChannelConfig, type DeliveryMode } from "./channels";
+import { generateForTask, describeModel } from "./llm";
+import { loadClassificationCache, flushClassificationCache, getClassificationCacheStats } from "./classification-cache";
 import { 
   classifyMessage, 
+  classifyMessagesBatch,
+  reclassifyFallbackMessages,
   recordMessage, 
   formatDailySummaryForSlack,
   formatTopHelpTopicsForSlack,
@@ -17,20 +19,77 @@ import {
   formatTopThreadsForSlack,
   answerAnalyticsQuestion,
   loadPersistedData,
+  flushPersistedData,
   hasPersistedData,
   clearConversation,
   addToConversation,
-  getAllMessages,
-  getMessagesForRollup,
+  getMessageCount,
+  getTopReactedMessages,
+  getMessagesMissingReactions,
+  setMessageReactionCount,
+  setMessageReactions,
   formatWeeklyRollupForSlack,
+  formatClassificationReviewForSlack,
+  getPendingReviews,
+  getTrackedMessage,
+  getNewestTrackedMessageId,
+  recordMessageEdit,
+  markMessageDeleted,
+  getMessagesNeedingRepair,
+  repairTrackedMessage,
+  removeDuplicateMessages,
+  reviewMessageTopic,
+  describeAnalyticsFilter,
+  type AnalyticsFilter,
+  type Topic,
   type TrackedMessage
 } from "./analytics";
-
-// Initialize Anthropic client
-const anthropic = createAnthropic({
-  baseURL: 'https://api.anthropic.com/v1',
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import {
+  loadPendingApprovals,
+  getPendingApproval,
+  getAllPendingApprovals,
+  setPendingApproval,
+  updatePendingApproval,
+  deletePendingApproval,
+  getDueAutoSends,
+  watchWelcomeThread,
+  getWelcomeThread,
+  type PendingApproval,
+  type WelcomeThread
+} from "./approvals";
+import {
+  loadDraftFeedback,
+  recordDraftFeedback,
+  getFewShotExamples,
+  formatFewShotExamples,
+  formatEditStatsForSlack
+} from "./feedback";
+import {
+  screenMessage,
+  loadModerationLog,
+  recordModerationAction,
+  getModerationActions,
+  type ScreeningResult
+} from "./moderation";
+import { formatHelpClustersForSlack, renameHelpCluster } from "./help-clusters";
+import { loadTaxonomy } from "./taxonomy";
+import { loadBackfillCursors, flushBackfillCursors, getBackfillCursor, advanceBackfillCursor } from "./backfill-cursors";
+import { loadTrendAlerts, getNewSpikes, markSpikeAlerted, formatTrendsForSlack, formatSpikeAlertForSlack } from "./trends";
+import {
+  loadHelpThreads,
+  flushHelpThreads,
+  trackHelpThreadMessage,
+  getOverdueHelpThreads,
+  setHelpThreadEscalation,
+  claimHelpThread,
+  resolveHelpThread,
+  isSolvedTagName,
+  getHelpThread,
+  getHelpReplySlaMs,
+  formatHelpEscalationForSlack,
+  formatHelpResponseTimesForSlack,
+  formatDuration
+} from "./help-threads";
 
 // Discord client
 const discordClient = new Client({
@@ -38,7 +97,10 @@ const discordClient = new Client({
     GatewayIntentBits.Guilds,
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
+    GatewayIntentBits.GuildMessageReactions,
   ],
+  // Edits, deletes and reactions on messages sent before the last restart arrive as partials
+  partials: [Partials.Message, Partials.Reaction, Partials.User],
 });
 
 // Slack clients
@@ -47,8 +109,8 @@ const slackSocket = new SocketModeClient({
   appToken: process.env.SLACK_APP_TOKEN!,
 });
 
-// Store pending responses
-const pendingResponses = new Map();
+// Live Discord messages for pending approvals (rehydrated from the approval store on startup)
+const discordMessages = new Map<string, Message>();
 
 // Get bot user ID (set on startup)
 let slackBotUserId: string | null = null;
@@ -56,24 +118,587 @@ let slackBotUserId: string | null = null;
 // Slack channel for intro notifications
 const SLACK_INTRO_CHANNEL = process.env.SLACK_INTRO_CHANNEL;
 
-// AI-powered response generator using Anthropic Claude
-async function generateResponse(message: string): Promise<string | null> {
+// Slack channel for the low-confidence classification review queue
+const SLACK_REVIEW_CHANNEL = process.env.SLACK_REVIEW_CHANNEL;
+
+// Context for drafting a reply inside a welcome thread
+interface FollowUpContext {
+  originalIntro: string;
+  threadContext: string;
+}
+
+// AI-powered response generator (model configured per task in models.ts)
+// Pass a tone to adjust the style, and previous drafts to steer away from repeating them
+async function generateResponse(message: string, tone?: ResponseTone, previousDrafts: string[] = [], followUp?: FollowUpContext): Promise<string | null> {
   try {
-    const prompt = COMMUNITY_RESPONSE_PROMPT.replace('{message}', message);
+    let toneInstruction = '';
+    if (tone) {
+      toneInstruction += `- ${RESPONSE_TONES[tone].instruction}\n`;
+    }
+    if (previousDrafts.length > 0) {
+      toneInstruction += `- Write something different from these earlier drafts:\n${previousDrafts.map(d => `  "${d}"`).join('\n')}\n`;
+    }
+
+    // Recent replies our reviewers approved, so drafts converge on our real voice
+    const examples = followUp ? '' : formatFewShotExamples(getFewShotExamples(message));
+
+    const template = followUp ? FOLLOW_UP_RESPONSE_PROMPT : COMMUNITY_RESPONSE_PROMPT;
+    const prompt = template
+      .replace('{intro}', followUp?.originalIntro ?? '')
+      .replace('{thread}', followUp?.threadContext ?? '')
+      .replace('{message}', message)
+      .replace('{examples}', examples)
+      .replace('{tone}', toneInstruction);
     
-    const { text } = await generateText({
-      model: anthropic(ANTHROPIC_CONFIG.model),
-      prompt,
-      maxTokens: 256,
-    });
+    const text = await generateForTask('welcome', prompt, { maxOutputTokens: 256 });
 
     return text.trim() || null;
   } catch (error) {
-    console.error("Anthropic error:", error);
+    console.error("Response generation error:", error);
     return null;
   }
 }
 
+// Score how safe a draft is to send without review (0-1, 0 on failure)
+async function scoreDraftConfidence(message: string, draft: string): Promise<number> {
+  try {
+    const prompt = DRAFT_CONFIDENCE_PROMPT
+      .replace('{message}', message)
+      .replace('{draft}', draft);
+
+    const text = await generateForTask('draft-scoring', prompt, { maxOutputTokens: 16 });
+
+    const score = parseFloat(text.trim());
+    return Number.isFinite(score) ? Math.min(Math.max(score, 0), 1) : 0;
+  } catch (error) {
+    console.error("Confidence scoring error:", error);
+    return 0;
+  }
+}
+
+// If the chosen delivery mode fails, try these next (in order)
+const DELIVERY_FALLBACKS: Record<DeliveryMode, DeliveryMode[]> = {
+  dm: ["thread", "reply"],
+  thread: ["reply"],
+  reply: ["thread"],
+};
+
+// Intros mentioning employers or hiring default to a DM rather than a public reply
+const SENSITIVE_INTRO_PATTERN = /\b(hiring|recruit(ing|er)?|job (hunting|search|opening)|looking for (a )?(job|work|role)|my (employer|company)|i work (at|for))\b/i;
+
+function suggestDeliveryMode(content: string, channelDefault: DeliveryMode = "thread"): DeliveryMode {
+  return SENSITIVE_INTRO_PATTERN.test(content) ? "dm" : channelDefault;
+}
+
+interface DeliveryResult {
+  mode: DeliveryMode;
+  fallbackFrom?: DeliveryMode; // Set when the chosen mode failed
+  fallbackReason?: string;
+}
+
+// Post a response using a single delivery mode
+async function deliverVia(mode: DeliveryMode, discordMessage: Message, pending: PendingApproval): Promise<void> {
+  if (mode === "dm") {
+    await discordMessage.author.send(pending.suggestedResponse);
+    return;
+  }
+
+  if (mode === "reply") {
+    await discordMessage.reply(pending.suggestedResponse);
+    return;
+  }
+
+  const thread = await discordMessage.startThread({
+    name: `Welcome ${pending.authorUsername}`,
+    reason: 'Community welcome response'
+  });
+  await thread.send(pending.suggestedResponse);
+
+  // Watch the thread so replies from the new member come back to Slack
+  watchWelcomeThread({
+    threadId: thread.id,
+    guildId: pending.guildId,
+    introMessageId: pending.messageId,
+    authorId: pending.authorId,
+    authorUsername: pending.authorUsername,
+    introContent: pending.introContent,
+    createdAt: new Date(),
+  });
+}
+
+// Post a welcome response using the chosen delivery mode, falling back if it fails (follow-ups reply inside the thread)
+async function sendWelcomeResponse(discordMessage: Message, pending: PendingApproval): Promise<DeliveryResult> {
+  if (pending.kind === 'follow-up') {
+    await discordMessage.reply(pending.suggestedResponse);
+    return { mode: "reply" };
+  }
+
+  const modes = [pending.deliveryMode, ...DELIVERY_FALLBACKS[pending.deliveryMode]];
+  let firstError: string | undefined;
+
+  for (const mode of modes) {
+    try {
+      await deliverVia(mode, discordMessage, pending);
+      return mode === pending.deliveryMode
+        ? { mode }
+        : { mode, fallbackFrom: pending.deliveryMode, fallbackReason: firstError };
+    } catch (error) {
+      console.error(`Failed to deliver via ${mode}:`, error);
+      firstError ??= error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  throw new Error(`All delivery modes failed: ${firstError}`);
+}
+
+// Describe how a response was delivered, for the Slack card
+function describeDelivery(result: DeliveryResult): string {
+  const line = `Delivered via: ${DELIVERY_MODE_LABELS[result.mode]}`;
+  if (!result.fallbackFrom) return line;
+  return `${line}\n⚠️ ${DELIVERY_MODE_LABELS[result.fallbackFrom]} failed (${result.fallbackReason ?? "unknown error"}), so it was sent as ${DELIVERY_MODE_LABELS[result.mode]} instead`;
+}
+
+// Draft a new response for a pending approval, using the follow-up prompt for thread replies
+function generateDraftFor(pending: PendingApproval, tone?: ResponseTone): Promise<string | null> {
+  const followUp = pending.kind === 'follow-up'
+    ? { originalIntro: pending.originalIntro ?? '', threadContext: pending.threadContext ?? '' }
+    : undefined;
+  return generateResponse(pending.introContent, tone, pending.drafts, followUp);
+}
+
+// True when Discord says the message or channel doesn't exist (as opposed to a rate limit,
+// an outage or the gateway not being ready)
+function isUnknownDiscordResource(error: unknown): boolean {
+  return error instanceof DiscordAPIError
+    && (error.code === RESTJSONErrorCodes.UnknownMessage || error.code === RESTJSONErrorCodes.UnknownChannel);
+}
+
+// Fetch the live Discord message for a pending approval. Returns null when it's gone for good;
+// any other error is thrown so the caller can try again later.
+async function fetchDiscordMessage(pending: PendingApproval): Promise<Message | null> {
+  const cached = discordMessages.get(pending.messageId);
+  if (cached) return cached;
+
+  try {
+    const channel = await discordClient.channels.fetch(pending.channelId);
+    if (!channel || !channel.isTextBased()) return null;
+
+    const message = await channel.messages.fetch(pending.messageId);
+    discordMessages.set(pending.messageId, message);
+    return message;
+  } catch (error) {
+    if (isUnknownDiscordResource(error)) return null;
+    throw error;
+  }
+}
+
+// Resolve the live Discord message for a pending approval, fetching it if it isn't cached
+async function getDiscordMessage(pending: PendingApproval): Promise<Message | null> {
+  try {
+    return await fetchDiscordMessage(pending);
+  } catch (error) {
+    console.error(`Failed to fetch Discord message ${pending.messageId}:`, error);
+    return null;
+  }
+}
+
+// Wait between rehydration attempts for approvals whose message couldn't be fetched
+const REHYDRATE_RETRY_MS = 5 * 60 * 1000;
+const REHYDRATE_MAX_ATTEMPTS = 5;
+
+// Re-fetch Discord messages for approvals that were pending before a restart. Approvals whose
+// fetch failed for another reason than the message being gone are kept and retried.
+async function rehydratePendingApprovals(
+  approvals: PendingApproval[] = getAllPendingApprovals(),
+  attempt: number = 1
+): Promise<void> {
+  if (approvals.length === 0) return;
+
+  console.log(`\n   📬 Rehydrating ${approvals.length} pending approval(s)...`);
+  let restored = 0;
+  const retry: PendingApproval[] = [];
+
+  for (const pending of approvals) {
+    // Approved, skipped or auto-sent since the last attempt
+    if (!getPendingApproval(pending.messageId)) continue;
+
+    let message: Message | null;
+    try {
+      message = await fetchDiscordMessage(pending);
+    } catch (error) {
+      console.error(`Failed to fetch Discord message ${pending.messageId}, will retry:`, error);
+      retry.push(pending);
+      continue;
+    }
+    if (message) {
+      restored++;
+      continue;
+    }
+
+    // The intro was deleted (or its channel was), so the card can never be approved
+    deletePendingApproval(pending.messageId);
+    await markApprovalCardUnavailable(pending, 'The Discord message could not be found.');
+  }
+
+  console.log(`   ✅ Restored ${restored}/${approvals.length} pending approval(s)`);
+
+  if (retry.length > 0 && attempt < REHYDRATE_MAX_ATTEMPTS) {
+    setTimeout(() => {
+      rehydratePendingApprovals(retry, attempt + 1).catch(error => console.error('Failed to rehydrate approvals:', error));
+    }, REHYDRATE_RETRY_MS);
+  }
+}
+
+// Replace a pending approval's Slack card with a note that the Discord message is gone
+async function markApprovalCardUnavailable(pending: PendingApproval, detail: string): Promise<void> {
+  if (!pending.slackChannel || !pending.slackTs) return;
+
+  try {
+    await slackWeb.chat.update({
+      channel: pending.slackChannel,
+      ts: pending.slackTs,
+      text: `⚠️ Intro from ${pending.authorUsername} is no longer available`,
+      blocks: [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `⚠️ *Intro No Longer Available*\n\nFrom: ${pending.authorUsername}\n${detail}`,
+          },
+        },
+      ],
+    });
+  } catch (error) {
+    console.error('Failed to update expired Slack card:', error);
+  }
+}
+
+// Slack limits static_select menus to 100 options; keep the draft picker readable
+const MAX_DRAFT_OPTIONS = 10;
+
+// Build the Slack card for a pending intro approval
+function buildIntroCardBlocks(pending: PendingApproval): any[] {
+  const messageId = pending.messageId;
+  const hasResponse = !!pending.suggestedResponse;
+
+  const isFollowUp = pending.kind === 'follow-up';
+  const title = isFollowUp ? "💬 Welcome Thread Reply" : "📬 New Discord Intro";
+
+  let headerText = title;
+  if (pending.edited) {
+    headerText = isFollowUp ? "💬 Welcome Thread Reply - Response Ready" : "📬 Discord Intro - Response Ready";
+  } else if (hasResponse) {
+    headerText = `${title} - AI Suggestion Ready`;
+  }
+
+  const blocks: any[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: headerText,
+        emoji: true,
+      },
+    },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*From:*\n${pending.authorUsername} (${pending.authorTag})`,
+        },
+        {
+          type: "mrkdwn",
+          text: isFollowUp ? `*Thread:*\nWelcome ${pending.authorUsername} (#${pending.channelName})` : `*Channel:*\n#${pending.channelName}`,
+        },
+      ],
+    },
+    { type: "divider" },
+  ];
+
+  // For follow-ups, show the conversation leading up to their reply
+  if (isFollowUp && pending.threadContext) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*🧵 Thread So Far:*\n${truncateText(pending.threadContext, 2500)}`,
+      },
+    });
+  }
+
+  blocks.push(
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `${isFollowUp ? "*💬 Their Reply:*" : "*📝 Their Intro:*"}\n${pending.introContent}`,
+      },
+      accessory: {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "View on Discord",
+          emoji: true,
+        },
+        url: pending.discordUrl,
+        action_id: "view_discord",
+      },
+    },
+  );
+
+  // Show the current response (AI draft or reviewer's own)
+  if (hasResponse) {
+    const label = pending.edited ? "*✏️ Your Response:*" : "*🤖 AI Suggested Response:*";
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `${label}\n_${pending.suggestedResponse}_`,
+      },
+    });
+  }
+
+  // Add action buttons
+  const actionButtons: any[] = [
+    {
+      type: "button",
+      text: { type: "plain_text", text: pending.edited ? "✏️ Edit" : "✏️ Write Response", emoji: true },
+      value: messageId,
+      action_id: `edit_${messageId}`,
+    },
+    {
+      type: "button",
+      text: { type: "plain_text", text: "❌ Skip", emoji: true },
+      style: "danger",
+      value: messageId,
+      action_id: `reject_${messageId}`,
+    },
+  ];
+
+  // Add the send button once there is something to send
+  if (hasResponse) {
+    actionButtons.unshift({
+      type: "button",
+      text: { type: "plain_text", text: pending.edited ? "✅ Send" : "✅ Send AI Response", emoji: true },
+      style: "primary",
+      value: messageId,
+      action_id: `approve_${messageId}`,
+    });
+  }
+
+  // Delivery mode picker (follow-ups always reply inside the welcome thread)
+  if (!isFollowUp) {
+    actionButtons.push({
+      type: "static_select",
+      action_id: `delivery_mode_${messageId}`,
+      initial_option: buildDeliveryOption(messageId, pending.deliveryMode),
+      options: (Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[]).map(mode => buildDeliveryOption(messageId, mode)),
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: actionButtons,
+  });
+
+  // Draft controls: regenerate, tone adjustments, and flipping back to an earlier draft
+  const draftControls: any[] = [
+    {
+      type: "button",
+      text: { type: "plain_text", text: "🔄 Regenerate", emoji: true },
+      value: messageId,
+      action_id: `regenerate_${messageId}`,
+    },
+    ...(Object.keys(RESPONSE_TONES) as ResponseTone[]).map(tone => ({
+      type: "button",
+      text: { type: "plain_text", text: RESPONSE_TONES[tone].label, emoji: true },
+      value: messageId,
+      action_id: `tone_${tone}_${messageId}`,
+    })),
+  ];
+
+  if (pending.drafts.length > 1) {
+    draftControls.push({
+      type: "static_select",
+      action_id: `draft_history_${messageId}`,
+      placeholder: { type: "plain_text", text: `Previous drafts (${pending.drafts.length})`, emoji: true },
+      options: pending.drafts.slice(-MAX_DRAFT_OPTIONS).map((draft, i, shown) => {
+        const index = pending.drafts.length - shown.length + i;
+        return {
+          text: { type: "plain_text", text: truncate(`${index + 1}. ${draft}`, 75), emoji: true },
+          value: `${messageId}:${index}`,
+        };
+      }),
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: draftControls,
+  });
+
+  if (pending.autoSendAt) {
+    const unix = Math.floor(pending.autoSendAt.getTime() / 1000);
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `⏰ Auto-sends <!date^${unix}^{date_short_pretty} at {time}|${pending.autoSendAt.toISOString()}> if nobody acts`,
+        },
+      ],
+    });
+  }
+
+  blocks.push({
+    type: "context",
+    elements: [
+      {
+        type: "mrkdwn",
+        text: `Message ID: ${messageId}${pending.draftConfidence !== undefined ? ` | Confidence: ${pending.draftConfidence.toFixed(2)}` : ""}${hasResponse && !pending.edited ? ` | AI Generated (${describeModel('welcome')}) | Draft ${pending.drafts.indexOf(pending.suggestedResponse) + 1} of ${pending.drafts.length}` : ""}`,
+      },
+    ],
+  });
+
+  return blocks;
+}
+
+// Slack select option for a delivery mode ("<messageId>:<mode>")
+function buildDeliveryOption(messageId: string, mode: DeliveryMode): object {
+  return {
+    text: { type: "plain_text", text: DELIVERY_MODE_LABELS[mode], emoji: true },
+    value: `${messageId}:${mode}`,
+  };
+}
+
+// Keep multi-line text within Slack's section limits, preserving the most recent lines
+function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? '...' + text.substring(text.length - maxLength + 3) : text;
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > maxLength ? singleLine.substring(0, maxLength - 3) + '...' : singleLine;
+}
+
+// How often to check for approvals whose auto-send time has passed
+const AUTO_SEND_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+
+// Work out when (if ever) a new draft should be sent without review
+async function getAutoSendTime(policy: ApprovalPolicy, introContent: string, draft: string): Promise<{ autoSendAt?: Date; draftConfidence?: number }> {
+  if (policy.mode === "auto-send-after") {
+    return { autoSendAt: new Date(Date.now() + policy.hours * 60 * 60 * 1000) };
+  }
+
+  if (policy.mode === "auto-send-when-confident") {
+    const draftConfidence = await scoreDraftConfidence(introContent, draft);
+    console.log(`   🎯 Draft confidence: ${draftConfidence.toFixed(2)} (threshold ${policy.minConfidence})`);
+    return draftConfidence >= policy.minConfidence
+      ? { autoSendAt: new Date(), draftConfidence }
+      : { draftConfidence };
+  }
+
+  return {};
+}
+
+// Put a pending approval's card back with a note that sending failed, so it can be approved again
+async function showDeliveryFailure(pending: PendingApproval, channel: string, ts: string, error: unknown): Promise<void> {
+  const reason = error instanceof Error ? error.message : String(error);
+  await slackWeb.chat.update({
+    channel,
+    ts,
+    text: `⚠️ Response to ${pending.authorUsername} could not be delivered`,
+    blocks: [
+      ...buildIntroCardBlocks(pending),
+      {
+        type: "context",
+        elements: [
+          { type: "mrkdwn", text: `⚠️ *Delivery failed* (${reason}). Nothing was sent; approve again to retry.` },
+        ],
+      },
+    ],
+  });
+}
+
+// Auto-sends currently being delivered
+const autoSendsInProgress = new Set<string>();
+
+// Send a pending draft without review and mark the Slack card as auto-sent
+async function autoSendResponse(pending: PendingApproval): Promise<void> {
+  // The next check mustn't send the same response again while this one is still sending
+  if (autoSendsInProgress.has(pending.messageId)) return;
+  autoSendsInProgress.add(pending.messageId);
+
+  try {
+    // Errors other than the message being gone are thrown, and the next check tries again
+    const discordMessage = await fetchDiscordMessage(pending);
+    if (!discordMessage) {
+      deletePendingApproval(pending.messageId);
+      await markApprovalCardUnavailable(pending, 'The Discord message could not be found, so nothing was auto-sent.');
+      return;
+    }
+
+    const reason = pending.draftConfidence !== undefined
+      ? `Classifier confidence ${pending.draftConfidence.toFixed(2)}`
+      : `No review within ${Math.round((pending.autoSendAt!.getTime() - pending.createdAt.getTime()) / (60 * 60 * 1000))}h`;
+
+    let delivery: DeliveryResult;
+    try {
+      delivery = await sendWelcomeResponse(discordMessage, pending);
+    } catch (error) {
+      // Hand the draft back to a reviewer instead of retrying a send that keeps failing
+      console.error(`Auto-send to ${pending.authorUsername} failed:`, error);
+      const updated = updatePendingApproval(pending.messageId, { autoSendAt: undefined });
+      if (updated?.slackChannel && updated.slackTs) {
+        await showDeliveryFailure(updated, updated.slackChannel, updated.slackTs, error);
+      }
+      return;
+    }
+
+    deletePendingApproval(pending.messageId);
+    discordMessages.delete(pending.messageId);
+    recordDraftFeedback({
+      messageId: pending.messageId,
+      introContent: pending.introContent,
+      aiDraft: pending.aiDraft,
+      finalText: pending.suggestedResponse,
+      autoSent: true,
+    });
+    console.log(`\n🤖 Auto-sent response to ${pending.authorUsername} (${reason})`);
+
+    if (pending.slackChannel && pending.slackTs) {
+      await slackWeb.chat.update({
+        channel: pending.slackChannel,
+        ts: pending.slackTs,
+        text: `🤖 Response auto-sent to ${pending.authorUsername}`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `🤖 *Auto-Sent*\n\nTo: ${pending.authorUsername}\nReason: ${reason}\n${describeDelivery(delivery)}\nMessage: _"${pending.suggestedResponse}"_`,
+            },
+          },
+        ],
+      });
+    }
+  } finally {
+    autoSendsInProgress.delete(pending.messageId);
+  }
+}
+
+// Send every draft whose auto-send time has passed
+async function processAutoSends(): Promise<void> {
+  for (const pending of getDueAutoSends()) {
+    try {
+      await autoSendResponse(pending);
+    } catch (error) {
+      console.error(`Failed to auto-send response for ${pending.messageId}:`, error);
+    }
+  }
+}
+
 // Track processed message IDs to prevent duplicates
 const processedSlackMessages = new Set<string>();
 
@@ -146,12 +771,246 @@ async function handleSlackMessage(event: any): Promise<void> {
   console.log('   ✅ Sent combined report');
 }
 
+// How long "Timeout user" mutes someone
+const MODERATION_TIMEOUT_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Hold a suspicious message for moderation instead of drafting a welcome
+async function holdForModeration(message: Message, channelName: string, discordUrl: string, screening: ScreeningResult): Promise<void> {
+  console.log(`\n🚨 Flagged as possible spam (score ${screening.score.toFixed(2)}): ${screening.reasons.join('; ')}`);
+
+  discordMessages.set(message.id, message);
+  setPendingApproval({
+    kind: 'moderation',
+    messageId: message.id,
+    guildId: message.guildId!,
+    channelId: message.channelId,
+    channelName,
+    authorId: message.author.id,
+    authorUsername: message.author.username,
+    authorTag: message.author.tag,
+    introContent: message.content,
+    screening: { score: screening.score, reasons: screening.reasons },
+    discordUrl,
+    suggestedResponse: "",
+    drafts: [],
+    aiDraft: "",
+    edited: false,
+    deliveryMode: "thread",
+    createdAt: new Date(),
+  });
+
+  recordModerationAction({
+    action: 'flagged',
+    messageId: message.id,
+    channelId: message.channelId,
+    authorId: message.author.id,
+    authorUsername: message.author.username,
+    content: message.content,
+    score: screening.score,
+    reasons: screening.reasons,
+    actor: 'bot',
+  });
+
+  const result = await slackWeb.chat.postMessage({
+    channel: SLACK_INTRO_CHANNEL!,
+    text: `🚨 Possible spam from ${message.author.username} in #${channelName}`,
+    blocks: buildModerationCardBlocks(getPendingApproval(message.id)!),
+  });
+
+  updatePendingApproval(message.id, {
+    slackTs: result.ts,
+    slackChannel: result.channel,
+  });
+
+  console.log("\n📤 Moderation card sent to Slack!");
+}
+
+// Build the Slack card for a message held as possible spam
+function buildModerationCardBlocks(pending: PendingApproval): any[] {
+  const messageId = pending.messageId;
+  const screening = pending.screening ?? { score: 0, reasons: [] };
+  const history = getModerationActions(messageId)
+    .filter(a => a.action !== 'flagged')
+    .map(a => `• ${a.action} by ${a.actor} at ${a.timestamp.toISOString()}`);
+
+  const blocks: any[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `🚨 Possible Spam in #${pending.channelName}`,
+        emoji: true,
+      },
+    },
+    {
+      type: "section",
+      fields: [
+        {
+          type: "mrkdwn",
+          text: `*From:*\n${pending.authorUsername} (${pending.authorTag})`,
+        },
+        {
+          type: "mrkdwn",
+          text: `*Spam Score:*\n${screening.score.toFixed(2)}`,
+        },
+      ],
+    },
+    { type: "divider" },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*📝 Message:*\n${pending.introContent}`,
+      },
+      accessory: {
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: "View on Discord",
+          emoji: true,
+        },
+        url: pending.discordUrl,
+        action_id: "view_discord",
+      },
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*🔎 Why it was flagged:*\n${screening.reasons.map(r => `• ${r}`).join('\n')}`,
+      },
+    },
+  ];
+
+  if (history.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `*Actions taken:*\n${history.join('\n')}` }],
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "🗑️ Delete message", emoji: true },
+        style: "danger",
+        value: messageId,
+        action_id: `mod_delete_${messageId}`,
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "⏳ Timeout user (24h)", emoji: true },
+        value: messageId,
+        action_id: `mod_timeout_${messageId}`,
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👍 False positive", emoji: true },
+        style: "primary",
+        value: messageId,
+        action_id: `mod_false_positive_${messageId}`,
+      },
+    ],
+  });
+
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `Message ID: ${messageId}` }],
+  });
+
+  return blocks;
+}
+
+// How many earlier thread messages to include as context for follow-up drafts
+const FOLLOW_UP_CONTEXT_MESSAGES = 20;
+
+// Draft a follow-up when a new member replies in their welcome thread, and send it to Slack for review
+async function handleWelcomeThreadReply(message: Message, welcomeThread: WelcomeThread): Promise<void> {
+  console.log(`\n💬 ${message.author.username} replied in their welcome thread`);
+
+  // Build the thread transcript (oldest first), excluding the new reply itself
+  const history = await message.channel.messages.fetch({ limit: FOLLOW_UP_CONTEXT_MESSAGES, before: message.id });
+  const threadContext = [...history.values()]
+    .sort((a, b) => a.createdTimestamp - b.createdTimestamp)
+    .map(m => `${m.author.bot ? 'You (Marco)' : m.author.username}: ${m.content}`)
+    .join('\n');
+
+  console.log(`\n🤖 Generating follow-up response with ${describeModel('welcome')}...`);
+  const aiResponse = await generateResponse(message.content, undefined, [], {
+    originalIntro: welcomeThread.introContent,
+    threadContext,
+  });
+
+  if (aiResponse) {
+    console.log(`✅ Follow-up generated: "${aiResponse}"`);
+  } else {
+    console.log("⚠️  AI generation failed, will prompt for manual response");
+  }
+
+  const parentChannelName = getChannelConfig(message.channel.isThread() ? message.channel.parentId ?? '' : '')?.name ?? 'intros';
+
+  discordMessages.set(message.id, message);
+  setPendingApproval({
+    kind: 'follow-up',
+    messageId: message.id,
+    guildId: welcomeThread.guildId,
+    channelId: message.channelId,
+    channelName: parentChannelName,
+    authorId: message.author.id,
+    authorUsername: message.author.username,
+    authorTag: message.author.tag,
+    introContent: message.content,
+    originalIntro: welcomeThread.introContent,
+    threadContext,
+    discordUrl: `https://discord.com/channels/${welcomeThread.guildId}/${message.channelId}/${message.id}`,
+    suggestedResponse: aiResponse ?? "",
+    drafts: aiResponse ? [aiResponse] : [],
+    aiDraft: aiResponse ?? "",
+    edited: false,
+    deliveryMode: "reply",
+    createdAt: new Date(),
+  });
+
+  const result = await slackWeb.chat.postMessage({
+    channel: SLACK_INTRO_CHANNEL!,
+    text: `${message.author.username} replied in their welcome thread`,
+    blocks: buildIntroCardBlocks(getPendingApproval(message.id)!),
+  });
+
+  updatePendingApproval(message.id, {
+    slackTs: result.ts,
+    slackChannel: result.channel,
+  });
+
+  console.log("\n📤 Follow-up sent to Slack!");
+}
+
 // Handle Discord messages
 discordClient.on(Events.MessageCreate, async (message) => {
   if (message.author.bot) return;
   
+  // Replies from a new member in the welcome thread we started for them
+  const welcomeThread = getWelcomeThread(message.channelId);
+  if (welcomeThread) {
+    if (message.author.id === welcomeThread.authorId) {
+      try {
+        await handleWelcomeThreadReply(message, welcomeThread);
+      } catch (error) {
+        console.error("\n❌ Error processing welcome thread reply:", error);
+      }
+    }
+    return;
+  }
+  
+  // Forum posts (like #help) arrive with their thread as the channel; the forum is what's configured
+  const forumThread = message.channel.isThread() && message.channel.parent?.type === ChannelType.GuildForum
+    ? message.channel
+    : undefined;
+
   // Check if this channel is configured and enabled
-  const channelConfig = getChannelConfig(message.channelId);
+  const channelConfig = getChannelConfig(forumThread?.parentId ?? message.channelId);
   if (!channelConfig) return;
   
   if (message.guildId !== process.env.DISCORD_GUILD_ID) return;
@@ -161,18 +1020,31 @@ discordClient.on(Events.MessageCreate, async (message) => {
   // For analytics-only channels, track the topic with full details
   if (channelConfig.responseType === "analytics-only") {
     try {
-      const topic = await classifyMessage(message.content);
-      await recordMessage(
+      const { topic, source, confidence, rationale } = await classifyMessage(message.content, channelConfig.name);
+      const tracked = await recordMessage(
         message.content,
         message.author.username,
         channelConfig.name,
         topic,
-        undefined, // threadId
-        undefined, // threadName
+        forumThread?.id,
+        forumThread?.name,
         message.id, // messageId for reactions
-        message.channelId // channelId for Discord links
+        message.channelId, // channelId for Discord links (thread ID for forum posts)
+        { classifiedBy: source, confidence, rationale, timestamp: message.createdAt, authorId: message.author.id, reactions: {} }
       );
-      console.log(`   📊 Classified as: ${topic}`);
+      // Until the startup backfill has caught this channel up, moving its cursor would skip the gap
+      if (caughtUpChannels.has(message.channelId) || (forumThread && caughtUpChannels.has(forumThread.parentId!))) {
+        advanceBackfillCursor(message.channelId, message.id);
+      }
+      console.log(`   📊 Classified as: ${topic} (${Math.round(confidence * 100)}%)${source === 'rules' ? ' (offline fallback)' : ''}`);
+
+      if (forumThread && channelConfig.name === 'help') {
+        await trackHelpThreadReply(message, forumThread);
+      }
+
+      if (tracked.reviewStatus === 'pending' && SLACK_REVIEW_CHANNEL) {
+        await postClassificationReview(tracked, SLACK_REVIEW_CHANNEL);
+      }
     } catch (error) {
       console.error("Analytics error:", error);
     }
@@ -186,8 +1058,21 @@ discordClient.on(Events.MessageCreate, async (message) => {
     // Build Discord message URL
     const discordUrl = `https://discord.com/channels/${message.guildId}/${message.channelId}/${message.id}`;
 
+    // Screen for spam and scams before drafting a welcome
+    const screening = screenMessage({
+      content: message.content,
+      authorCreatedAt: message.author.createdAt,
+      mentionCount: message.mentions.users.size + message.mentions.roles.size,
+      mentionsEveryone: message.mentions.everyone,
+    });
+
+    if (screening.flagged) {
+      await holdForModeration(message, channelConfig.name, discordUrl, screening);
+      return;
+    }
+
     // Try to generate AI response
-    console.log("\n🤖 Generating AI response with Claude...");
+    console.log(`\n🤖 Generating AI response with ${describeModel('welcome')}...`);
     const aiResponse = await generateResponse(message.content);
 
     let suggestedResponse = "";
@@ -202,111 +1087,37 @@ discordClient.on(Events.MessageCreate, async (message) => {
       console.log("⚠️  AI generation failed, will prompt for manual response");
     }
 
+    // Decide whether this draft can go out without a human
+    const policy = channelConfig.approvalPolicy ?? { mode: "always-review" };
+    const { autoSendAt, draftConfidence } = hasAiSuggestion
+      ? await getAutoSendTime(policy, message.content, suggestedResponse)
+      : {};
+
     // Store pending response
-    pendingResponses.set(message.id, {
-      discordMessage: message,
-      suggestedResponse: suggestedResponse,
+    discordMessages.set(message.id, message);
+    setPendingApproval({
+      kind: 'intro',
+      messageId: message.id,
+      guildId: message.guildId,
+      channelId: message.channelId,
+      channelName: channelConfig.name,
+      authorId: message.author.id,
+      authorUsername: message.author.username,
+      authorTag: message.author.tag,
       introContent: message.content,
       discordUrl: discordUrl,
-      channelConfig: channelConfig,
+      suggestedResponse: suggestedResponse,
+      drafts: hasAiSuggestion ? [suggestedResponse] : [],
+      aiDraft: suggestedResponse,
+      edited: false,
+      deliveryMode: suggestDeliveryMode(message.content, channelConfig.deliveryMode),
+      autoSendAt,
+      draftConfidence,
+      createdAt: new Date(),
     });
 
     // Build Slack blocks
-    const blocks: any[] = [
-      {
-        type: "header",
-        text: {
-          type: "plain_text",
-          text: hasAiSuggestion ? "📬 New Discord Intro - AI Suggestion Ready" : "📬 New Discord Intro",
-          emoji: true,
-        },
-      },
-      {
-        type: "section",
-        fields: [
-          {
-            type: "mrkdwn",
-            text: `*From:*\n${message.author.username} (${message.author.tag})`,
-          },
-          {
-            type: "mrkdwn",
-            text: `*Channel:*\n#intros`,
-          },
-        ],
-      },
-      { type: "divider" },
-      {
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: `*📝 Their Intro:*\n${message.content}`,
-        },
-        accessory: {
-          type: "button",
-          text: {
-            type: "plain_text",
-            text: "View on Discord",
-            emoji: true,
-          },
-          url: discordUrl,
-          action_id: "view_discord",
-        },
-      },
-    ];
-
-    // Add AI suggestion if we have one
-    if (hasAiSuggestion) {
-      blocks.push({
-        type: "section",
-        text: {
-          type: "mrkdwn",
-          text: `*🤖 AI Suggested Response:*\n_${suggestedResponse}_`,
-        },
-      });
-    }
-
-    // Add action buttons
-    const actionButtons: any[] = [
-      {
-        type: "button",
-        text: { type: "plain_text", text: "✏️ Write Response", emoji: true },
-        value: message.id,
-        action_id: `edit_${message.id}`,
-      },
-      {
-        type: "button",
-        text: { type: "plain_text", text: "❌ Skip", emoji: true },
-        style: "danger",
-        value: message.id,
-        action_id: `reject_${message.id}`,
-      },
-    ];
-
-    // Add "Send AI Response" button if we have an AI suggestion
-    if (hasAiSuggestion) {
-      actionButtons.unshift({
-        type: "button",
-        text: { type: "plain_text", text: "✅ Send AI Response", emoji: true },
-        style: "primary",
-        value: message.id,
-        action_id: `approve_${message.id}`,
-      });
-    }
-
-    blocks.push({
-      type: "actions",
-      elements: actionButtons,
-    });
-
-    blocks.push({
-      type: "context",
-      elements: [
-        {
-          type: "mrkdwn",
-          text: `Message ID: ${message.id}${hasAiSuggestion ? " | AI Generated (Claude)" : ""}`,
-        },
-      ],
-    });
+    const blocks = buildIntroCardBlocks(getPendingApproval(message.id)!);
 
     // Send to Slack channel (or DM fallback)
     const result = await slackWeb.chat.postMessage({
@@ -316,13 +1127,17 @@ discordClient.on(Events.MessageCreate, async (message) => {
     });
 
     // Store Slack message info
-    const pending = pendingResponses.get(message.id);
-    if (pending) {
-      pending.slackTs = result.ts;
-      pending.slackChannel = result.channel;
-    }
+    updatePendingApproval(message.id, {
+      slackTs: result.ts,
+      slackChannel: result.channel,
+    });
 
     console.log("\n📤 Sent to Slack!");
+
+    // Confident drafts go out immediately; timed ones are picked up by processAutoSends
+    if (autoSendAt && autoSendAt <= new Date()) {
+      await autoSendResponse(getPendingApproval(message.id)!);
+    }
   } catch (error) {
     console.error("\n❌ Error processing intro:", error);
   }
@@ -391,6 +1206,126 @@ slackSocket.on('slack_event', async (args: any) => {
   }
 });
 
+// Re-classify tracked messages when they're edited on Discord
+discordClient.on(Events.MessageUpdate, async (_oldMessage, newMessage) => {
+  try {
+    if (!getTrackedMessage(newMessage.id)) return;
+
+    const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+    const updated = await recordMessageEdit(message.id, message.content, message.editedAt ?? new Date());
+    if (!updated) return;
+
+    console.log(`\n✏️ Message ${message.id} in #${updated.channel} was edited, re-classified as: ${updated.topic}`);
+    if (updated.reviewStatus === 'pending' && SLACK_REVIEW_CHANNEL) {
+      await postClassificationReview(updated, SLACK_REVIEW_CHANNEL);
+    }
+  } catch (error) {
+    console.error('Failed to handle message edit:', error);
+  }
+});
+
+// A message was deleted on Discord: drop it from analytics and close any approval card for it
+async function handleDiscordMessageDeleted(message: Message | PartialMessage): Promise<void> {
+  if (markMessageDeleted(message.id)) {
+    console.log(`\n🗑️ Tracked message ${message.id} was deleted on Discord`);
+  }
+
+  const pending = getPendingApproval(message.id);
+  if (pending) {
+    deletePendingApproval(message.id);
+    discordMessages.delete(message.id);
+    await markApprovalCardUnavailable(pending, 'The Discord message was deleted.');
+    console.log(`\n🗑️ Pending ${pending.kind} from ${pending.authorUsername} was deleted on Discord`);
+  }
+}
+
+discordClient.on(Events.MessageDelete, async (message) => {
+  try {
+    await handleDiscordMessageDeleted(message);
+  } catch (error) {
+    console.error('Failed to handle message delete:', error);
+  }
+});
+
+discordClient.on(Events.MessageBulkDelete, async (messages) => {
+  for (const message of messages.values()) {
+    try {
+      await handleDiscordMessageDeleted(message);
+    } catch (error) {
+      console.error('Failed to handle message delete:', error);
+    }
+  }
+});
+
+// Reaction counts by emoji ("<:name:id>" for custom emoji)
+function countReactions(message: Message): Record<string, number> {
+  const reactions: Record<string, number> = {};
+  for (const reaction of message.reactions.cache.values()) {
+    reactions[reaction.emoji.toString()] = reaction.count;
+  }
+  return reactions;
+}
+
+// Keep a tracked message's reaction count for one emoji up to date. delta is the change
+// this event made, used when a partial reaction can't be fetched for its real count.
+async function handleReactionChange(reaction: MessageReaction | PartialMessageReaction, delta: number): Promise<void> {
+  const tracked = getTrackedMessage(reaction.message.id);
+  if (!tracked) return;
+
+  const emoji = reaction.emoji.toString();
+  let count = reaction.count;
+  if (reaction.partial) {
+    try {
+      count = (await reaction.fetch()).count;
+    } catch (error) {
+      // Removing the last reaction leaves nothing to fetch
+      count = null;
+    }
+  }
+  setMessageReactionCount(reaction.message.id, emoji, count ?? (tracked.reactions?.[emoji] ?? 0) + delta);
+}
+
+discordClient.on(Events.MessageReactionAdd, async (reaction) => {
+  try {
+    await handleReactionChange(reaction, 1);
+  } catch (error) {
+    console.error('Failed to record reaction:', error);
+  }
+});
+
+discordClient.on(Events.MessageReactionRemove, async (reaction) => {
+  try {
+    await handleReactionChange(reaction, -1);
+  } catch (error) {
+    console.error('Failed to record reaction removal:', error);
+  }
+});
+
+discordClient.on(Events.MessageReactionRemoveAll, (message) => {
+  try {
+    setMessageReactions(message.id, {});
+  } catch (error) {
+    console.error('Failed to clear reactions:', error);
+  }
+});
+
+discordClient.on(Events.MessageReactionRemoveEmoji, (reaction) => {
+  try {
+    setMessageReactionCount(reaction.message.id, reaction.emoji.toString(), 0);
+  } catch (error) {
+    console.error('Failed to clear reaction:', error);
+  }
+});
+
+// Solved tags resolve #help threads, and so does archiving one that got a reply (see help-threads.ts)
+discordClient.on(Events.ThreadUpdate, (_oldThread, newThread) => {
+  try {
+    checkHelpThreadResolution(newThread);
+  } catch (error) {
+    console.error('Failed to check help thread resolution:', error);
+  }
+});
+
 // Handle Slack slash commands
 slackSocket.on('slash_commands', async (args: any) => {
   const { body, ack } = args;
@@ -403,137 +1338,376 @@ slackSocket.on('slash_commands', async (args: any) => {
   if (body.command === '/discord-stats') {
     const guildId = process.env.DISCORD_GUILD_ID || '';
     const subcommand = (body.text || '').toLowerCase().trim();
+    // Report arguments ("last 7d", "since 2026-09-01", "#help") are taken out before matching the subcommand
+    const parsed = parseReportFilter(body.text || '');
+    const { filter, rest: reportCommand } = 'error' in parsed ? { filter: {}, rest: '' } : parsed;
     
     let report;
-    if (subcommand.includes('thread') || subcommand.includes('help') || subcommand.includes('active') || subcommand.includes('popular')) {
-      report = formatTopThreadsForSlack(guildId);
-      console.log('   📊 Generating top threads report...');
+    if (subcommand.startsWith('backfill')) {
+      // "/discord-stats backfill <channel> <from> [to]" - runs in the background, reports when done
+      const request = parseBackfillCommand(body.text || '');
+      if ('error' in request) {
+        report = { text: `❌ ${request.error}\nUsage: \`/discord-stats backfill <channel> <YYYY-MM-DD> [YYYY-MM-DD]\`` };
+      } else {
+        const { channel, range } = request;
+        report = { text: `⏳ Backfilling #${channel.name} from ${formatBackfillRange(range)}...` };
+        backfillChannel(channel.channelId, channel.name, range)
+          .then(count => respondToSlashCommand(body, {
+            text: `📥 Backfilled #${channel.name} (${formatBackfillRange(range)}): ${count} new message${count === 1 ? '' : 's'} recorded`,
+          }))
+          .catch(error => console.error('On-demand backfill failed:', error));
+      }
+      console.log(`   📥 Backfill request: ${body.text}`);
+    } else if (subcommand.startsWith('rename-cluster')) {
+      // "/discord-stats rename-cluster <id> <name>" - keep the name's original casing
+      const [, clusterId = '', ...nameParts] = (body.text || '').trim().split(/\s+/);
+      const renamed = renameHelpCluster(clusterId, nameParts.join(' '));
+      report = {
+        text: renamed
+          ? `🧩 Renamed cluster \`${renamed.id}\` to "${renamed.name}"`
+          : '❌ Usage: `/discord-stats rename-cluster <id> <name>` (see `/discord-stats clusters` for IDs)',
+      };
+      console.log(`   🧩 Rename cluster ${clusterId}: ${renamed ? 'done' : 'not found'}`);
+    } else if ('error' in parsed) {
+      report = { text: `❌ ${parsed.error}\n${REPORT_FILTER_USAGE}` };
+    } else if (reportCommand.includes('cluster')) {
+      report = formatHelpClustersForSlack();
+      console.log('   🧩 Generating help topic clusters...');
+    } else if (reportCommand.includes('review')) {
+      // Cards go to the channel itself so reviewers can click through them
+      const pendingReviews = getPendingReviews(REVIEW_BATCH_SIZE);
+      for (const msg of pendingReviews) {
+        await postClassificationReview(msg, body.channel_id);
+      }
+      report = {
+        text: pendingReviews.length > 0
+          ? `🏷️ Posted ${pendingReviews.length} low-confidence label${pendingReviews.length > 1 ? 's' : ''} for review`
+          : '🏷️ No labels waiting for review',
+      };
+      console.log(`   🏷️ Posted ${pendingReviews.length} labels for review...`);
+    } else if (reportCommand.includes('edit')) {
+      report = formatEditStatsForSlack();
+      console.log('   ✏️ Generating draft edit stats...');
+    } else if (reportCommand.includes('response') || reportCommand.includes('sla')) {
+      report = formatHelpResponseTimesForSlack(filter);
+      console.log(`   ⏱️ Generating help response times report (${describeAnalyticsFilter(filter)})...`);
+    } else if (reportCommand.includes('trend')) {
+      report = formatTrendsForSlack(filter);
+      console.log(`   📈 Generating trends report (${describeAnalyticsFilter(filter)})...`);
+    } else if (reportCommand.includes('thread') || reportCommand.includes('help') || reportCommand.includes('active') || reportCommand.includes('popular')) {
+      report = formatTopThreadsForSlack(guildId, filter);
+      console.log(`   📊 Generating top threads report (${describeAnalyticsFilter(filter)})...`);
     } else {
-      report = formatCombinedReportForSlack();
-      console.log('   📊 Generating combined report...');
+      report = formatCombinedReportForSlack(guildId, filter);
+      console.log(`   📊 Generating combined report (${describeAnalyticsFilter(filter)})...`);
     }
     
-    // Respond via response_url
-    if (body.response_url) {
-      await fetch(body.response_url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          response_type: 'ephemeral',
-          ...report,
-        }),
-      });
-      console.log('   ✅ Sent report via response_url');
-    } else {
-      // Fallback: post to channel
-      await slackWeb.chat.postMessage({
-        channel: body.channel_id,
-        ...report,
-      });
-      console.log('   ✅ Sent report to channel');
-    }
+    await respondToSlashCommand(body, report);
   }
 });
 
-// Handle Slack button interactions
-slackSocket.on("interactive", async ({ body, ack }) => {
-  await ack();
+// Reply to a slash command (response_url works for up to 30 minutes, so slow commands can use it too)
+async function respondToSlashCommand(body: any, report: { text: string; blocks?: object[] }): Promise<void> {
+  if (body.response_url) {
+    await fetch(body.response_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        response_type: 'ephemeral',
+        ...report,
+      }),
+    });
+    console.log('   ✅ Sent report via response_url');
+  } else {
+    // Fallback: post to channel
+    await slackWeb.chat.postMessage({
+      channel: body.channel_id,
+      ...report,
+    });
+    console.log('   ✅ Sent report to channel');
+  }
+}
 
-  if (body.type === "view_submission") {
-    // Handle modal submission (your written response)
-    const messageId = body.view.private_metadata;
-    const yourResponse = body.view.state.values.response_block.response_input.value;
-    const pending = pendingResponses.get(messageId);
+const REPORT_FILTER_USAGE = 'Filter reports with `last 7d` (h/d/w), `since YYYY-MM-DD`, `until YYYY-MM-DD` and `#channel`, e.g. `/discord-stats threads last 30d #help`';
 
-    if (!pending) {
-      return;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Take report arguments out of /discord-stats text: "last 7d", "since 2026-09-01",
+// "until 2026-09-30" (inclusive, UTC) and channel names ("#help", or Slack's "<#C123|help>")
+function parseReportFilter(text: string): { filter: AnalyticsFilter; rest: string } | { error: string } {
+  const filter: AnalyticsFilter = {};
+  let rest = text.toLowerCase();
+
+  const last = rest.match(/\blast\s+(\d+)\s*(h|hours?|d|days?|w|weeks?)\b/);
+  if (last) {
+    filter.since = new Date(Date.now() - Number(last[1]) * DURATION_UNITS_MS[last[2]![0]!]!);
+    rest = rest.replace(last[0], ' ');
+  }
+
+  for (const keyword of ['since', 'until'] as const) {
+    const match = rest.match(new RegExp(`\\b${keyword}\\s+(\\S+)`));
+    if (!match) continue;
+
+    const date = new Date(`${match[1]}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(match[1]!) || isNaN(date.getTime())) {
+      return { error: `"${match[1]}" isn't a YYYY-MM-DD date` };
+    }
+    if (keyword === 'since') {
+      if (last) return { error: 'Use either `last` or `since`, not both' };
+      filter.since = date;
+    } else {
+      filter.until = new Date(date.getTime() + DURATION_UNITS_MS.d!);
     }
+    rest = rest.replace(match[0], ' ');
+  }
+  if (filter.since && filter.until && filter.until <= filter.since) {
+    return { error: 'The `until` date is before the `since` date' };
+  }
 
-    // Update the stored response
-    pending.suggestedResponse = yourResponse;
+  const known = getChannels().map(ch => ch.name);
+  const channels: string[] = [];
+  for (const match of rest.matchAll(/<#\w+\|([^>]+)>|#([\w-]+)/g)) {
+    const name = match[1] ?? match[2]!;
+    if (!known.includes(name)) return { error: `#${name} isn't a tracked channel` };
+    if (!channels.includes(name)) channels.push(name);
+    rest = rest.replace(match[0], ' ');
+  }
+  if (channels.length > 0) filter.channels = channels;
 
-    console.log(`\n✏️ Response written for ${pending.discordMessage.author.username}`);
-    console.log(`   Response: "${yourResponse}"`);
+  return { filter, rest: rest.replace(/\s+/g, ' ').trim() };
+}
 
-    // Update the Slack message with your response and approval button
-    await slackWeb.chat.update({
-      channel: pending.slackChannel,
-      ts: pending.slackTs,
-      text: `Response ready for ${pending.discordMessage.author.username}`,
-      blocks: [
-        {
-          type: "header",
-          text: {
-            type: "plain_text",
-            text: "📬 Discord Intro - Response Ready",
-            emoji: true,
-          },
-        },
-        {
-          type: "section",
-          fields: [
-            {
-              type: "mrkdwn",
-              text: `*From:*\n${pending.discordMessage.author.username}`,
-            },
+// Parse "backfill <channel> <from> [to]" (dates are YYYY-MM-DD, UTC; "to" is inclusive and defaults to now)
+function parseBackfillCommand(text: string): { channel: ChannelConfig; range: BackfillRange } | { error: string } {
+  const [, channelArg = '', fromArg = '', toArg] = text.trim().split(/\s+/);
+  const name = channelArg.replace(/^#/, '').toLowerCase();
+  const channel = getChannels().find(ch => ch.enabled && ch.channelId && ch.responseType === 'analytics-only' && ch.name === name);
+  if (!channel) return { error: `#${name || '?'} isn't an enabled analytics channel` };
+
+  const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+  const since = new Date(`${fromArg}T00:00:00Z`);
+  if (!dayPattern.test(fromArg) || isNaN(since.getTime())) return { error: `"${fromArg}" isn't a YYYY-MM-DD date` };
+
+  let until: Date | undefined;
+  if (toArg) {
+    until = new Date(`${toArg}T23:59:59.999Z`);
+    if (!dayPattern.test(toArg) || isNaN(until.getTime())) return { error: `"${toArg}" isn't a YYYY-MM-DD date` };
+    if (until < since) return { error: 'The end date is before the start date' };
+  }
+
+  return { channel, range: { since, until } };
+}
+
+function formatBackfillRange(range: BackfillRange): string {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  return `${day(range.since)} to ${range.until ? day(range.until) : 'now'}`;
+}
+
+// How many pending labels `/discord-stats review` posts at a time
+const REVIEW_BATCH_SIZE = 5;
+
+// Post a low-confidence label to Slack for a human to confirm or correct
+async function postClassificationReview(msg: TrackedMessage, channel: string): Promise<void> {
+  try {
+    await slackWeb.chat.postMessage({
+      channel,
+      ...formatClassificationReviewForSlack(msg, process.env.DISCORD_GUILD_ID || ''),
+    });
+    console.log(`   🏷️ Sent "${msg.topic}" label for review`);
+  } catch (error) {
+    console.error('Failed to post classification review:', error);
+  }
+}
+
+// Handle a topic button on a classification review card ("<messageId>:<topic>")
+async function handleClassificationReview(action: any, body: any): Promise<void> {
+  const [messageId, topic] = String(action.value).split(':') as [string, Topic];
+  const reviewer = body.user?.username || body.user?.name || body.user?.id || 'unknown';
+
+  const reviewed = reviewMessageTopic(messageId, topic, reviewer);
+  if (!reviewed) {
+    await slackWeb.chat.postMessage({
+      channel: body.channel.id,
+      text: "❌ This message is no longer tracked.",
+      thread_ts: body.message.ts,
+    });
+    return;
+  }
+
+  await slackWeb.chat.update({
+    channel: body.channel.id,
+    ts: body.message.ts,
+    ...formatClassificationReviewForSlack(reviewed, process.env.DISCORD_GUILD_ID || ''),
+  });
+  console.log(`\n🏷️ ${reviewer} ${reviewed.reviewStatus} label "${reviewed.topic}" for message ${messageId}`);
+}
+
+// Handle "Delete message", "Timeout user" and "False positive" on a moderation card
+async function handleModerationAction(actionId: string, pending: PendingApproval, body: any): Promise<void> {
+  const messageId = pending.messageId;
+  const actor = body.user?.username || body.user?.name || body.user?.id || 'unknown';
+  const logEntry = {
+    messageId,
+    channelId: pending.channelId,
+    authorId: pending.authorId,
+    authorUsername: pending.authorUsername,
+    content: pending.introContent,
+    score: pending.screening?.score ?? 0,
+    reasons: pending.screening?.reasons ?? [],
+    actor,
+  };
+
+  if (actionId.startsWith("mod_delete_")) {
+    let deleted: boolean;
+    try {
+      const discordMessage = await fetchDiscordMessage(pending);
+      deleted = discordMessage !== null;
+      if (discordMessage) await discordMessage.delete();
+    } catch (error) {
+      if (!isUnknownDiscordResource(error)) {
+        // Keep the card open so the moderator can try again
+        console.error(`Failed to delete flagged message from ${pending.authorUsername}:`, error);
+        await slackWeb.chat.update({
+          channel: body.channel.id,
+          ts: body.message.ts,
+          text: `⚠️ Couldn't delete message from ${pending.authorUsername}`,
+          blocks: [
+            ...buildModerationCardBlocks(pending),
             {
-              type: "mrkdwn",
-              text: `*Channel:*\n#intros`,
+              type: "context",
+              elements: [
+                { type: "mrkdwn", text: `⚠️ *Delete failed* (${error instanceof Error ? error.message : String(error)}). The message is still on Discord.` },
+              ],
             },
           ],
-        },
-        { type: "divider" },
-        {
-          type: "section",
-          text: {
-            type: "mrkdwn",
-            text: `*📝 Their Intro:*\n${pending.introContent}`,
-          },
-          accessory: {
-            type: "button",
+        });
+        return;
+      }
+      deleted = false;
+    }
+
+    deletePendingApproval(messageId);
+    discordMessages.delete(messageId);
+
+    // Gone before we got to it (deleted by its author or another moderator): nothing to record
+    if (!deleted) {
+      await slackWeb.chat.update({
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `⚠️ Message from ${pending.authorUsername} was already gone`,
+        blocks: [
+          {
+            type: "section",
             text: {
-              type: "plain_text",
-              text: "View on Discord",
-              emoji: true,
+              type: "mrkdwn",
+              text: `⚠️ *Message Not Found*\n\nThe message from ${pending.authorUsername} could not be found on Discord, so nothing was deleted. It may already have been removed.\nMessage: _"${truncate(pending.introContent, 200)}"_`,
             },
-            url: pending.discordUrl,
-            action_id: "view_discord",
           },
-        },
+        ],
+      });
+      console.log(`\n⚠️ Flagged message from ${pending.authorUsername} was already gone`);
+      return;
+    }
+
+    recordModerationAction({ ...logEntry, action: 'delete' });
+
+    await slackWeb.chat.update({
+      channel: body.channel.id,
+      ts: body.message.ts,
+      text: `🗑️ Deleted message from ${pending.authorUsername}`,
+      blocks: [
         {
           type: "section",
           text: {
             type: "mrkdwn",
-            text: `*✏️ Your Response:*\n_${yourResponse}_`,
+            text: `🗑️ *Message Deleted* by ${actor}\n\nFrom: ${pending.authorUsername}\nMessage: _"${truncate(pending.introContent, 200)}"_`,
           },
         },
-        {
-          type: "actions",
-          elements: [
-            {
-              type: "button",
-              text: { type: "plain_text", text: "✅ Send", emoji: true },
-              style: "primary",
-              value: messageId,
-              action_id: `approve_${messageId}`,
-            },
-            {
-              type: "button",
-              text: { type: "plain_text", text: "✏️ Edit", emoji: true },
-              value: messageId,
-              action_id: `edit_${messageId}`,
-            },
-            {
-              type: "button",
-              text: { type: "plain_text", text: "❌ Skip", emoji: true },
-              style: "danger",
-              value: messageId,
-              action_id: `reject_${messageId}`,
-            },
-          ],
-        },
       ],
     });
+    console.log(`\n🗑️ Deleted spam from ${pending.authorUsername}`);
+  } else if (actionId.startsWith("mod_timeout_")) {
+    const discordMessage = await getDiscordMessage(pending);
+    const member = discordMessage?.guild
+      ? await discordMessage.guild.members.fetch(pending.authorId)
+      : null;
+    if (!member) {
+      await slackWeb.chat.postMessage({
+        channel: body.channel.id,
+        text: "❌ Couldn't find that member on the server. They may have left already.",
+        thread_ts: body.message.ts,
+      });
+      return;
+    }
+
+    await member.timeout(MODERATION_TIMEOUT_MS, `Possible spam in #${pending.channelName} (flagged via Slack by ${actor})`);
+    recordModerationAction({ ...logEntry, action: 'timeout' });
+
+    // Keep the card open so the message can still be deleted
+    await slackWeb.chat.update({
+      channel: body.channel.id,
+      ts: body.message.ts,
+      text: `⏳ Timed out ${pending.authorUsername}`,
+      blocks: buildModerationCardBlocks(pending),
+    });
+    console.log(`\n⏳ Timed out ${pending.authorUsername}`);
+  } else if (actionId.startsWith("mod_false_positive_")) {
+    recordModerationAction({ ...logEntry, action: 'false-positive' });
+
+    // Fall back into the normal welcome flow
+    console.log(`\n👍 False positive for ${pending.authorUsername}, generating welcome draft...`);
+    const draft = await generateResponse(pending.introContent);
+    const updated = updatePendingApproval(messageId, {
+      kind: 'intro',
+      suggestedResponse: draft ?? "",
+      drafts: draft ? [draft] : [],
+      aiDraft: draft ?? "",
+      deliveryMode: suggestDeliveryMode(pending.introContent, getChannelConfig(pending.channelId)?.deliveryMode),
+    })!;
+
+    await slackWeb.chat.update({
+      channel: body.channel.id,
+      ts: body.message.ts,
+      text: `New intro from ${updated.authorUsername}`,
+      blocks: buildIntroCardBlocks(updated),
+    });
+  }
+}
+
+// Handle Slack button interactions
+slackSocket.on("interactive", async ({ body, ack }) => {
+  await ack();
+
+  if (body.type === "view_submission") {
+    // Handle modal submission (your written response)
+    const messageId = body.view.private_metadata;
+    const yourResponse = body.view.state.values.response_block.response_input.value;
+    const selectedMode = body.view.state.values.delivery_block?.delivery_input?.selected_option?.value;
+    const pending = updatePendingApproval(messageId, {
+      suggestedResponse: yourResponse,
+      edited: true,
+      ...(selectedMode ? { deliveryMode: selectedMode.split(':')[1] as DeliveryMode } : {}),
+      autoSendAt: undefined, // A reviewer is handling it now
+    });
+
+    if (!pending || !pending.slackChannel || !pending.slackTs) {
+      return;
+    }
+
+    console.log(`\n✏️ Response written for ${pending.authorUsername}`);
+    console.log(`   Response: "${yourResponse}"`);
+
+    // Update the Slack message with your response and approval button
+    await slackWeb.chat.update({
+      channel: pending.slackChannel,
+      ts: pending.slackTs,
+      text: `Response ready for ${pending.authorUsername}`,
+      blocks: buildIntroCardBlocks(pending),
+    });
 
     return;
   }
@@ -542,14 +1716,35 @@ slackSocket.on("interactive", async ({ body, ack }) => {
 
   const action = body.actions[0];
   const actionId = action.action_id;
-  const messageId = action.value;
+  // Buttons carry the message ID as their value; selects encode "<messageId>:<draftIndex or delivery mode>"
+  const messageId = action.value ?? action.selected_option?.value.split(':')[0];
   
   // Ignore the "View on Discord" button clicks
   if (actionId === "view_discord") {
     return;
   }
 
-  const pending = pendingResponses.get(messageId);
+  // Classification review cards aren't tied to a pending approval
+  if (actionId.startsWith("review_topic_")) {
+    try {
+      await handleClassificationReview(action, body);
+    } catch (error) {
+      console.error("Error handling classification review:", error);
+    }
+    return;
+  }
+
+  // Neither are help thread escalations
+  if (actionId.startsWith("help_claim_")) {
+    try {
+      await handleHelpThreadClaim(action, body);
+    } catch (error) {
+      console.error("Error handling help thread claim:", error);
+    }
+    return;
+  }
+
+  const pending = getPendingApproval(messageId);
 
   if (!pending) {
     await slackWeb.chat.postMessage({
@@ -561,34 +1756,60 @@ slackSocket.on("interactive", async ({ body, ack }) => {
   }
 
   try {
-    if (actionId.startsWith("approve_")) {
-      // Send response to Discord
-      const thread = await pending.discordMessage.startThread({
-        name: `Welcome ${pending.discordMessage.author.username}`,
-        reason: 'Community welcome response'
-      });
-      await thread.send(pending.suggestedResponse);
+    if (actionId.startsWith("mod_")) {
+      await handleModerationAction(actionId, pending, body);
+    } else if (actionId.startsWith("approve_")) {
+      const discordMessage = await getDiscordMessage(pending);
+      if (!discordMessage) {
+        await slackWeb.chat.postMessage({
+          channel: body.channel.id,
+          text: "❌ The Discord message could not be found. It may have been deleted.",
+          thread_ts: body.message.ts,
+        });
+        return;
+      }
+
+      // Send response to Discord; on failure the approval stays pending for another try
+      let delivery: DeliveryResult;
+      try {
+        delivery = await sendWelcomeResponse(discordMessage, pending);
+      } catch (error) {
+        console.error(`Failed to deliver response to ${pending.authorUsername}:`, error);
+        await showDeliveryFailure(pending, body.channel.id, body.message.ts, error);
+        return;
+      }
+      // Only intros feed the few-shot examples for COMMUNITY_RESPONSE_PROMPT
+      if (pending.kind === 'intro') {
+        recordDraftFeedback({
+          messageId,
+          introContent: pending.introContent,
+          aiDraft: pending.aiDraft,
+          finalText: pending.suggestedResponse,
+          autoSent: false,
+        });
+      }
 
       await slackWeb.chat.update({
-        channel: pending.slackChannel,
-        ts: pending.slackTs,
-        text: `✅ Response sent to ${pending.discordMessage.author.username}`,
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `✅ Response sent to ${pending.authorUsername}`,
         blocks: [
           {
             type: "section",
             text: {
               type: "mrkdwn",
-              text: `✅ *Response Sent!*\n\nTo: ${pending.discordMessage.author.username}\nMessage: _"${pending.suggestedResponse}"_`,
+              text: `✅ *Response Sent!*\n\nTo: ${pending.authorUsername}\n${describeDelivery(delivery)}\nMessage: _"${pending.suggestedResponse}"_`,
             },
           },
         ],
       });
 
-      pendingResponses.delete(messageId);
-      console.log(`\n✅ Response sent to ${pending.discordMessage.author.username}`);
+      deletePendingApproval(messageId);
+      discordMessages.delete(messageId);
+      console.log(`\n✅ Response sent to ${pending.authorUsername}`);
     } else if (actionId.startsWith("edit_")) {
       // Open modal for you to write a response
-      console.log(`\n✏️ Opening response modal for ${pending.discordMessage.author.username}...`);
+      console.log(`\n✏️ Opening response modal for ${pending.authorUsername}...`);
 
       await slackWeb.views.open({
         trigger_id: body.trigger_id,
@@ -613,7 +1834,7 @@ slackSocket.on("interactive", async ({ body, ack }) => {
               type: "section",
               text: {
                 type: "mrkdwn",
-                text: `*Responding to:* ${pending.discordMessage.author.username}\n\n*Their intro:*\n"${pending.introContent}"\n\n<${pending.discordUrl}|View on Discord>`,
+                text: `*Responding to:* ${pending.authorUsername}\n\n*Their intro:*\n"${pending.introContent}"\n\n<${pending.discordUrl}|View on Discord>`,
               },
             },
             {
@@ -634,139 +1855,449 @@ slackSocket.on("interactive", async ({ body, ack }) => {
                 text: "Your Response",
               },
             },
+            // Follow-ups always reply inside the welcome thread
+            ...(pending.kind === 'intro' ? [{
+              type: "input",
+              block_id: "delivery_block",
+              element: {
+                type: "static_select",
+                action_id: "delivery_input",
+                initial_option: buildDeliveryOption(messageId, pending.deliveryMode),
+                options: (Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[]).map(mode => buildDeliveryOption(messageId, mode)),
+              },
+              label: {
+                type: "plain_text",
+                text: "Deliver As",
+              },
+            }] as any[] : []),
           ],
         },
       });
+    } else if (actionId.startsWith("regenerate_") || actionId.startsWith("tone_")) {
+      // Produce a new AI draft in place, optionally with a tone adjustment
+      const tone = actionId.startsWith("tone_")
+        ? actionId.slice("tone_".length, actionId.lastIndexOf("_")) as ResponseTone
+        : undefined;
+
+      console.log(`\n🔄 Regenerating response for ${pending.authorUsername}${tone ? ` (${tone})` : ""}...`);
+      const draft = await generateDraftFor(pending, tone);
+
+      if (!draft) {
+        await slackWeb.chat.postMessage({
+          channel: body.channel.id,
+          text: "⚠️ AI generation failed. Try again or write the response yourself.",
+          thread_ts: body.message.ts,
+        });
+        return;
+      }
+
+      const updated = updatePendingApproval(messageId, {
+        suggestedResponse: draft,
+        drafts: [...pending.drafts, draft],
+        aiDraft: draft,
+        edited: false,
+        autoSendAt: undefined, // A reviewer is handling it now
+        draftConfidence: undefined,
+      })!;
+
+      await slackWeb.chat.update({
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `New intro from ${updated.authorUsername}`,
+        blocks: buildIntroCardBlocks(updated),
+      });
+      console.log(`   ✅ New draft: "${draft}"`);
+    } else if (actionId.startsWith("delivery_mode_")) {
+      const deliveryMode = action.selected_option.value.split(':')[1] as DeliveryMode;
+      const updated = updatePendingApproval(messageId, { deliveryMode })!;
+
+      await slackWeb.chat.update({
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `New intro from ${updated.authorUsername}`,
+        blocks: buildIntroCardBlocks(updated),
+      });
+    } else if (actionId.startsWith("draft_history_")) {
+      // Flip back to an earlier draft
+      const draftIndex = Number(action.selected_option.value.split(':')[1]);
+      const draft = pending.drafts[draftIndex];
+      if (draft === undefined) return;
+
+      const updated = updatePendingApproval(messageId, {
+        suggestedResponse: draft,
+        aiDraft: draft,
+        edited: false,
+        autoSendAt: undefined, // A reviewer is handling it now
+        draftConfidence: undefined,
+      })!;
+
+      await slackWeb.chat.update({
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `New intro from ${updated.authorUsername}`,
+        blocks: buildIntroCardBlocks(updated),
+      });
     } else if (actionId.startsWith("reject_")) {
       await slackWeb.chat.update({
-        channel: pending.slackChannel,
-        ts: pending.slackTs,
-        text: `❌ Skipped ${pending.discordMessage.author.username}`,
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text: `❌ Skipped ${pending.authorUsername}`,
         blocks: [
           {
             type: "section",
             text: {
               type: "mrkdwn",
-              text: `❌ *Skipped*\n\nFrom: ${pending.discordMessage.author.username}`,
+              text: `❌ *Skipped*\n\nFrom: ${pending.authorUsername}`,
             },
           },
         ],
       });
 
-      pendingResponses.delete(messageId);
-      console.log(`\n❌ Skipped ${pending.discordMessage.author.username}`);
+      deletePendingApproval(messageId);
+      discordMessages.delete(messageId);
+      console.log(`\n❌ Skipped ${pending.authorUsername}`);
     }
   } catch (error) {
     console.error("Error handling Slack interaction:", error);
   }
 });
 
-// Fetch historical messages from a channel (2024 onwards only)
-async function fetchHistoricalMessages(channelId: string, channelName: string, limit: number = 100): Promise<number> {
-  console.log(`         [Debug] Fetching channel ${channelName} (ID: ${channelId})`);
+// Track a #help forum message; when it's the first reply to an escalated thread, mark the card answered
+async function trackHelpThreadReply(message: Message, thread: AnyThreadChannel): Promise<void> {
+  const answered = trackHelpThreadMessage(
+    { threadId: thread.id, forumId: thread.parentId ?? '', title: thread.name, ownerId: thread.ownerId ?? undefined, createdAt: thread.createdAt ?? undefined },
+    { messageId: message.id, authorId: message.author.id, author: message.author.username, content: message.content, timestamp: message.createdAt }
+  );
+  if (!answered?.escalation) return;
+
+  try {
+    await slackWeb.chat.update({
+      channel: answered.escalation.slackChannel,
+      ts: answered.escalation.slackTs,
+      ...formatHelpEscalationForSlack(answered, process.env.DISCORD_GUILD_ID || ''),
+    });
+    console.log(`   🆘 Escalated thread "${answered.title}" answered by ${answered.firstReplyAuthor}`);
+  } catch (error) {
+    console.error('Failed to update help escalation card:', error);
+  }
+}
+
+// Mark a #help thread resolved when it has a solved-style tag or was archived
+function checkHelpThreadResolution(thread: AnyThreadChannel): void {
+  if (!getHelpThread(thread.id)) return;
+
+  const parent = thread.parent;
+  const solvedTags = parent?.type === ChannelType.GuildForum
+    ? parent.availableTags.filter(tag => isSolvedTagName(tag.name)).map(tag => tag.id)
+    : [];
+  if (thread.appliedTags.some(id => solvedTags.includes(id))) {
+    resolveHelpThread(thread.id, new Date(), 'tag');
+  }
+  if (thread.archived) {
+    resolveHelpThread(thread.id, thread.archivedAt ?? new Date(), 'archived');
+  }
+}
+
+// Handle "I'll take it" on a help escalation card
+async function handleHelpThreadClaim(action: any, body: any): Promise<void> {
+  const userId = body.user?.id || 'unknown';
+  const thread = claimHelpThread(String(action.value), userId);
+  if (!thread) {
+    await slackWeb.chat.postMessage({
+      channel: body.channel.id,
+      text: "❌ This thread is no longer tracked.",
+      thread_ts: body.message.ts,
+    });
+    return;
+  }
+
+  if (thread.escalation?.claimedBy !== userId) {
+    await slackWeb.chat.postMessage({
+      channel: body.channel.id,
+      text: `🙋 <@${thread.escalation?.claimedBy}> already took this one.`,
+      thread_ts: body.message.ts,
+    });
+    return;
+  }
+
+  await slackWeb.chat.update({
+    channel: body.channel.id,
+    ts: body.message.ts,
+    ...formatHelpEscalationForSlack(thread, process.env.DISCORD_GUILD_ID || ''),
+  });
+  console.log(`\n🙋 ${body.user?.username || userId} claimed help thread "${thread.title}"`);
+}
+
+// Messages per Discord fetch (the API maximum)
+const BACKFILL_PAGE_SIZE = 100;
+
+// A fetched Discord message waiting to be classified and recorded
+interface BackfillItem {
+  message: Message;
+  threadId?: string;
+  threadName?: string;
+  channelId: string; // Thread ID for forum posts
+}
+
+// Classify fetched messages in batches and record them
+async function recordBackfillItems(items: BackfillItem[], channelName: string): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const classifications = await classifyMessagesBatch(
+    items.map(item => ({ id: item.message.id, content: item.message.content, channel: channelName }))
+  );
+
+  let processed = 0;
+  for (const item of items) {
+    const classification = classifications.get(item.message.id);
+    if (!classification) continue;
+
+    try {
+      await recordMessage(
+        item.message.content,
+        item.message.author.username,
+        channelName,
+        classification.topic,
+        item.threadId,
+        item.threadName,
+        item.message.id, // messageId for reactions
+        item.channelId, // channelId for Discord links
+        {
+          helpTopic: classification.helpTopic,
+          classifiedBy: classification.source,
+          confidence: classification.confidence,
+          rationale: classification.rationale,
+          timestamp: item.message.createdAt,
+          authorId: item.message.author.id,
+          reactions: countReactions(item.message),
+        }
+      );
+      if (channelName === 'help' && item.message.channel.isThread()) {
+        await trackHelpThreadReply(item.message, item.message.channel);
+      }
+      processed++;
+    } catch (error) {
+      // Skip messages that fail to process
+    }
+  }
+
+  return processed;
+}
+
+// How far back the first backfill of a channel goes (BACKFILL_INITIAL_DAYS, defaults to 30)
+function getInitialBackfillStart(): Date {
+  const days = Number(process.env.BACKFILL_INITIAL_DAYS);
+  const lookback = Number.isFinite(days) && days > 0 ? days : 30;
+  return new Date(Date.now() - lookback * 24 * 60 * 60 * 1000);
+}
+
+// Smallest snowflake at a point in time, for fetching messages "after" a date
+function snowflakeAt(date: Date): string {
+  return SnowflakeUtil.generate({ timestamp: date, increment: 0n, workerId: 0n, processId: 0n }).toString();
+}
+
+function isNewerSnowflake(a: string, b: string): boolean {
+  return BigInt(a) > BigInt(b);
+}
+
+// A startup backfill or /discord-stats backfill run. Ranges are for on-demand runs and don't move cursors.
+interface BackfillRange {
+  since: Date;
+  until?: Date;
+}
+
+// Channels with a backfill running (startup and on-demand runs must not overlap)
+const backfillsInProgress = new Set<string>();
+
+// Channels, forums and forum threads the startup backfill has fully caught up. Live messages
+// only move the cursor of these, so an interrupted backfill resumes from where it really was.
+const caughtUpChannels = new Set<string>();
+
+// Where a channel or thread's backfill starts: its cursor, else the newest message we already
+// track (data from before cursors existed), else the initial lookback window
+function getBackfillStart(channelId: string, range?: BackfillRange): string {
+  if (range) return snowflakeAt(range.since);
+  return getBackfillCursor(channelId)
+    ?? getNewestTrackedMessageId(channelId)
+    ?? snowflakeAt(getInitialBackfillStart());
+}
+
+// Page forward through a channel or thread after a message ID, oldest first, recording each page.
+// The channel's cursor is saved per page, so an interrupted run picks up where it stopped.
+async function backfillMessagesAfter(
+  channel: TextBasedChannel,
+  channelName: string,
+  afterId: string,
+  thread: { id: string; name: string } | undefined,
+  range: BackfillRange | undefined
+): Promise<number> {
+  let after = afterId;
+  let processed = 0;
+
+  while (true) {
+    const page = await channel.messages.fetch({ after, limit: BACKFILL_PAGE_SIZE });
+    if (page.size === 0) break;
+
+    const messages = [...page.values()].sort((a, b) => (isNewerSnowflake(a.id, b.id) ? 1 : -1));
+    const inRange = range?.until ? messages.filter(m => m.createdAt <= range.until!) : messages;
+
+    const items: BackfillItem[] = inRange
+      .filter(m => !m.author.bot && !getTrackedMessage(m.id))
+      .map(message => ({
+        message,
+        threadId: thread?.id,
+        threadName: thread?.name,
+        channelId: channel.id, // Thread ID for forum posts
+      }));
+    processed += await recordBackfillItems(items, channelName);
+
+    const newest = messages[messages.length - 1]!;
+    if (!range) advanceBackfillCursor(channel.id, newest.id);
+
+    if (inRange.length < messages.length || page.size < BACKFILL_PAGE_SIZE) break;
+    after = newest.id;
+  }
+
+  return processed;
+}
+
+// Fetch messages from a channel: everything since its cursor on startup, or a date range on demand
+async function backfillChannel(channelId: string, channelName: string, range?: BackfillRange): Promise<number> {
+  if (backfillsInProgress.has(channelId)) {
+    console.log(`         [Backfill] #${channelName} is already being backfilled, skipping`);
+    return 0;
+  }
+  backfillsInProgress.add(channelId);
+
   try {
     const channel = await discordClient.channels.fetch(channelId);
     if (!channel) {
-      console.log(`         [Debug] Channel ${channelName} returned null`);
+      console.log(`         [Backfill] Channel ${channelName} returned null`);
       return 0;
     }
     
-    console.log(`         [Debug] Channel ${channelName} type: ${channel.type}`);
-    
-    const cutoffDate = new Date('2024-01-01');
-    let processed = 0;
-    
-    // Handle forum channels (like #help) - type 15 is GuildForum
-    if (channel.type === 15) { // GuildForum
-      console.log(`         [Forum] Detected forum channel, fetching threads...`);
-      const forumChannel = channel as any;
-      
-      try {
-        const threads = await forumChannel.threads.fetchActive();
-        console.log(`         [Forum] Active threads: ${threads.threads.size}`);
-        
-        const archivedThreads = await forumChannel.threads.fetchArchived({ limit: 50 });
-        console.log(`         [Forum] Archived threads: ${archivedThreads.threads.size}`);
-        
-        const allThreads = [...threads.threads.values(), ...archivedThreads.threads.values()];
-        console.log(`         [Forum] Total threads to process: ${allThreads.length}`);
-        
-        for (const thread of allThreads) {
-          if (thread.createdAt && thread.createdAt < cutoffDate) {
-            console.log(`         [Forum] Skipping old thread: ${thread.name}`);
-            continue;
-          }
-          
-          try {
-            const messages = await thread.messages.fetch({ limit: 20 });
-            console.log(`         [Forum] Thread "${thread.name}": ${messages.size} messages`);
-            
-            for (const [, message] of messages) {
-              if (message.author.bot) continue;
-              if (message.createdAt < cutoffDate) continue;
-              
-              try {
-                const topic = await classifyMessage(message.content);
-                await recordMessage(
-                  message.content,
-                  message.author.username,
-                  channelName,
-                  topic,
-                  thread.id,
-                  thread.name,
-                  message.id, // messageId for reactions
-                  thread.id // channelId (thread ID for forum posts)
-                );
-                processed++;
-              } catch (error) {
-                // Skip messages that fail to process
-              }
-            }
-          } catch (error) {
-            console.log(`         [Forum] Error fetching thread ${thread.name}: ${error}`);
+    // Forum channels (like #help): walk the threads with activity since the forum's cursor.
+    // Each thread keeps its own cursor; the forum's only moves once every thread is caught up.
+    if (channel.type === ChannelType.GuildForum) {
+      const passStartedAt = new Date();
+      const activeSince = range ? range.since.getTime() : SnowflakeUtil.timestampFrom(getBackfillStart(channelId));
+      const threads = [...(await channel.threads.fetchActive()).threads.values()];
+
+      // Archived threads come newest-archived first; stop once they were archived before the window
+      let before: Date | undefined;
+      while (true) {
+        const archived = await channel.threads.fetchArchived({ before, limit: BACKFILL_PAGE_SIZE });
+        const page = [...archived.threads.values()];
+        const recent = page.filter(t => (t.archivedAt?.getTime() ?? Date.now()) >= activeSince);
+        threads.push(...recent);
+        if (!archived.hasMore || recent.length < page.length || page.length === 0) break;
+        before = page[page.length - 1]!.archivedAt ?? undefined;
+        if (!before) break;
+      }
+      console.log(`         [Forum] ${threads.length} threads with activity to check`);
+
+      let processed = 0;
+      let failedThreads = 0;
+      for (const thread of threads) {
+        if (range?.until && thread.createdAt && thread.createdAt > range.until) continue;
+
+        const start = getBackfillStart(thread.id, range);
+        try {
+          // Nothing new since the thread's cursor
+          if (range || !thread.lastMessageId || isNewerSnowflake(thread.lastMessageId, start)) {
+            processed += await backfillMessagesAfter(thread, channelName, start, { id: thread.id, name: thread.name }, range);
           }
+          if (!range) caughtUpChannels.add(thread.id);
+          // Tags and archival that changed while we were down
+          if (channelName === 'help') checkHelpThreadResolution(thread);
+        } catch (error) {
+          failedThreads++;
+          console.log(`         [Forum] Error fetching thread ${thread.name}: ${error}`);
         }
-      } catch (error) {
-        console.log(`         [Forum] Error fetching threads: ${error}`);
       }
-      
-      console.log(`         [Forum] Total messages processed: ${processed}`);
+
+      // Threads with activity after the pass started are found by the next one
+      if (!range && failedThreads === 0) {
+        advanceBackfillCursor(channelId, snowflakeAt(passStartedAt));
+        caughtUpChannels.add(channelId);
+      }
       return processed;
     }
     
-    // Handle regular text channels
+    // Regular text channels
     if (!channel.isTextBased()) return 0;
-    
-    const textChannel = channel as any;
-    const messages = await textChannel.messages.fetch({ limit });
-    
-    for (const [, message] of messages) {
-      if (message.author.bot) continue;
-      if (message.createdAt < cutoffDate) continue;
-      
-      try {
-        const topic = await classifyMessage(message.content);
-        await recordMessage(
-          message.content,
-          message.author.username,
-          channelName,
-          topic,
-          undefined, // threadId
-          undefined, // threadName
-          message.id, // messageId for reactions
-          channelId // channelId for Discord links
-        );
-        processed++;
-      } catch (error) {
-        // Skip messages that fail to process
-      }
-    }
-    
+    const processed = await backfillMessagesAfter(channel, channelName, getBackfillStart(channelId, range), undefined, range);
+    if (!range) caughtUpChannels.add(channelId);
     return processed;
   } catch (error) {
     console.error(`   Failed to fetch messages from #${channelName}:`, error);
     return 0;
+  } finally {
+    backfillsInProgress.delete(channelId);
+  }
+}
+
+// Records fixed per pass of the repair routine
+const REPAIR_BATCH_SIZE = 100;
+
+// Fix records stored before real Discord timestamps and author IDs were recorded: drop duplicates
+// from re-run backfills, then re-fetch each message (falling back to the time in its snowflake ID
+// when the message is gone)
+async function repairStoredMessages(): Promise<void> {
+  const duplicates = removeDuplicateMessages();
+  if (duplicates > 0) {
+    console.log(`   🧹 Removed ${duplicates} duplicate message records`);
+  }
+
+  let fetched = 0;
+  let fromSnowflake = 0;
+  while (true) {
+    const batch = getMessagesNeedingRepair(REPAIR_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const msg of batch) {
+      try {
+        const channel = await discordClient.channels.fetch(msg.channelId!);
+        if (channel?.isTextBased()) {
+          const message = await channel.messages.fetch(msg.messageId!);
+          repairTrackedMessage(msg, { timestamp: message.createdAt, authorId: message.author.id });
+          fetched++;
+          continue;
+        }
+      } catch (error) {
+        // Deleted message or channel we can't read, use the snowflake timestamp
+      }
+      repairTrackedMessage(msg, { timestamp: new Date(SnowflakeUtil.timestampFrom(msg.messageId!)) });
+      fromSnowflake++;
+    }
+  }
+
+  if (fetched + fromSnowflake > 0) {
+    console.log(`   🔧 Repaired ${fetched + fromSnowflake} stored messages (${fetched} re-fetched, ${fromSnowflake} from message IDs)`);
+  }
+}
+
+// Count reactions once on messages in the rollup window that were recorded before reaction
+// events were tracked; after that the counts are kept up to date by the events
+async function seedReactionCounts(): Promise<void> {
+  const messages = getMessagesMissingReactions(7);
+  if (messages.length === 0) return;
+
+  let counted = 0;
+  for (const msg of messages) {
+    let reactions: Record<string, number> = {};
+    try {
+      const channel = await discordClient.channels.fetch(msg.channelId!);
+      if (channel?.isTextBased()) {
+        reactions = countReactions(await channel.messages.fetch(msg.messageId!));
+        counted++;
+      }
+    } catch (error) {
+      // Deleted message or channel we can't read, count it as no reactions
+    }
+    setMessageReactions(msg.messageId!, reactions);
   }
+  console.log(`   👍 Counted reactions on ${counted} of ${messages.length} recent messages`);
 }
 
 // Start everything
@@ -784,18 +2315,27 @@ discordClient.once(Events.ClientReady, async (readyClient) => {
   console.log(`\n   📊 Analytics tracking for ${analyticsChannels.length} channel(s):`);
   analyticsChannels.forEach(ch => console.log(`      - #${ch.name}`));
   
-  // Fetch historical messages for analytics channels (skip if we have persisted data)
-  if (hasPersistedData()) {
-    console.log(`\n   ✅ Using persisted analytics data (skip historical fetch)\n`);
-  } else {
-    console.log(`\n   📥 Loading historical messages...`);
-    for (const ch of analyticsChannels) {
-      if (!ch.channelId) continue;
-      const count = await fetchHistoricalMessages(ch.channelId, ch.name, 100);
-      console.log(`      - #${ch.name}: ${count} messages loaded`);
-    }
-    console.log(`   ✅ Historical data loaded!\n`);
+  // Restore Slack approval cards that were open before the restart
+  await rehydratePendingApprovals();
+
+  // Send drafts whose auto-send time passed while we were down, then keep checking
+  await processAutoSends();
+  setInterval(processAutoSends, AUTO_SEND_CHECK_INTERVAL_MS);
+  
+  // Fetch messages posted since the last run (or the initial lookback window on first run)
+  console.log(hasPersistedData()
+    ? `\n   📥 Catching up on messages since the last run...`
+    : `\n   📥 Loading historical messages...`);
+  for (const ch of analyticsChannels) {
+    if (!ch.channelId) continue;
+    const count = await backfillChannel(ch.channelId, ch.name);
+    console.log(`      - #${ch.name}: ${count} messages loaded`);
   }
+  console.log(`   ✅ Historical data loaded!\n`);
+
+  // Correct timestamps and author IDs on records from older versions
+  await repairStoredMessages();
+  await seedReactionCounts();
 });
 
 slackSocket.on("ready", async () => {
@@ -821,15 +2361,17 @@ const HEALTH_CHECK_CHANNEL = process.env.SLACK_HEALTH_CHECK_CHANNEL;
 async function sendHealthCheck(): Promise<void> {
   if (!HEALTH_CHECK_CHANNEL) return;
   
-  const messageCount = getAllMessages().length;
+  const messageCount = getMessageCount();
   const uptime = process.uptime();
   const uptimeHours = Math.floor(uptime / 3600);
   const uptimeMinutes = Math.floor((uptime % 3600) / 60);
+  const cache = getClassificationCacheStats();
+  const cacheSummary = `Classification cache: ${cache.hits} hits / ${cache.misses} misses (${Math.round(cache.hitRate * 100)}%), ${cache.entries} entries`;
   
   try {
     await slackWeb.chat.postMessage({
       channel: HEALTH_CHECK_CHANNEL,
-      text: `✅ Discord bot is running | ${messageCount} messages tracked | Uptime: ${uptimeHours}h ${uptimeMinutes}m`,
+      text: `✅ Discord bot is running | ${messageCount} messages tracked | Uptime: ${uptimeHours}h ${uptimeMinutes}m | ${cacheSummary}`,
     });
     console.log(`💓 Health check sent (${messageCount} messages, uptime: ${uptimeHours}h ${uptimeMinutes}m)`);
   } catch (error) {
@@ -837,7 +2379,10 @@ async function sendHealthCheck(): Promise<void> {
   }
 }
 
-// Weekly rollup - fetches reactions and posts top messages twice a day
+// How often to retry fallback-labeled messages with the LLM
+const RECLASSIFY_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Weekly rollup - posts the most reacted messages twice a day (counts come from reaction events)
 const ROLLUP_CHANNEL = process.env.SLACK_ROLLUP_CHANNEL || HEALTH_CHECK_CHANNEL;
 const MIN_REACTIONS = 3;
 
@@ -845,43 +2390,7 @@ async function sendWeeklyRollup(): Promise<void> {
   if (!ROLLUP_CHANNEL) return;
   
   const guildId = process.env.DISCORD_GUILD_ID || '';
-  const messages = getMessagesForRollup(7); // Last 7 days
-  
-  console.log(`📊 Starting weekly rollup: ${messages.length} messages to check for reactions...`);
-  
-  // Fetch reactions for each message
-  const rankedMessages: Array<{ message: TrackedMessage; reactionCount: number }> = [];
-  
-  for (const msg of messages) {
-    if (!msg.messageId || !msg.channelId) continue;
-    
-    try {
-      // Fetch the channel (could be a thread)
-      const channel = await discordClient.channels.fetch(msg.channelId);
-      if (!channel || !channel.isTextBased()) continue;
-      
-      const textChannel = channel as any;
-      const discordMessage = await textChannel.messages.fetch(msg.messageId).catch(() => null);
-      
-      if (!discordMessage) continue;
-      
-      // Count total reactions
-      let totalReactions = 0;
-      for (const [, reaction] of discordMessage.reactions.cache) {
-        totalReactions += reaction.count;
-      }
-      
-      if (totalReactions >= MIN_REACTIONS) {
-        rankedMessages.push({ message: msg, reactionCount: totalReactions });
-      }
-    } catch (error) {
-      // Skip messages we can't fetch
-      continue;
-    }
-  }
-  
-  // Sort by reaction count (highest first)
-  rankedMessages.sort((a, b) => b.reactionCount - a.reactionCount);
+  const rankedMessages = getTopReactedMessages(7, MIN_REACTIONS); // Last 7 days
   
   console.log(`📊 Found ${rankedMessages.length} messages with ${MIN_REACTIONS}+ reactions`);
   
@@ -899,12 +2408,104 @@ async function sendWeeklyRollup(): Promise<void> {
   }
 }
 
+// Spike alerts - checks every hour whether a topic jumped well above its usual volume
+const SPIKE_ALERT_CHANNEL = process.env.SLACK_SPIKE_ALERT_CHANNEL;
+const SPIKE_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+async function checkForSpikes(): Promise<void> {
+  if (!SPIKE_ALERT_CHANNEL) return;
+
+  const guildId = process.env.DISCORD_GUILD_ID || '';
+  let spikes;
+  try {
+    spikes = getNewSpikes();
+  } catch (error) {
+    console.error('Failed to check for spikes:', error);
+    return;
+  }
+
+  // Each spike starts its cooldown only once its alert is posted, so failed ones retry next check
+  for (const spike of spikes) {
+    try {
+      await slackWeb.chat.postMessage({
+        channel: SPIKE_ALERT_CHANNEL,
+        ...formatSpikeAlertForSlack(spike, guildId),
+      });
+      markSpikeAlerted(spike.key);
+      console.log(`🚨 Spike alert sent: ${spike.label} (${spike.count} in 24h, ${spike.ratio.toFixed(1)}x usual)`);
+    } catch (error) {
+      console.error(`Failed to send spike alert for ${spike.label}:`, error);
+    }
+  }
+}
+
+// Help thread escalation - posts #help threads nobody answered within the SLA (HELP_REPLY_SLA_HOURS)
+const HELP_ESCALATION_CHANNEL = process.env.SLACK_HELP_ESCALATION_CHANNEL;
+const HELP_ESCALATION_CHECK_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+async function escalateUnansweredHelpThreads(): Promise<void> {
+  if (!HELP_ESCALATION_CHANNEL) return;
+
+  const guildId = process.env.DISCORD_GUILD_ID || '';
+  for (const thread of getOverdueHelpThreads()) {
+    try {
+      const result = await slackWeb.chat.postMessage({
+        channel: HELP_ESCALATION_CHANNEL,
+        ...formatHelpEscalationForSlack(thread, guildId),
+      });
+      setHelpThreadEscalation(thread.threadId, result.channel!, result.ts!);
+      console.log(`🆘 Escalated unanswered help thread "${thread.title}"`);
+    } catch (error) {
+      console.error(`Failed to escalate help thread ${thread.threadId}:`, error);
+    }
+  }
+}
+
+/**
+ * Write pending debounced saves and exit (SIGTERM from the process manager, Ctrl+C locally)
+ */
+let shuttingDown = false;
+function shutdown(signal: string): void {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`🛑 ${signal} received, saving data before exit...`);
+
+  flushPersistedData();
+  flushClassificationCache();
+  flushBackfillCursors();
+  flushHelpThreads();
+  discordClient.destroy().catch(() => {});
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 (async () => {
   console.log("🚀 Starting Discord Community Agent V2...");
-  console.log("   Using Anthropic Claude for AI responses");
+  console.log(`   Using ${describeModel('welcome')} for AI responses, ${describeModel('classification')} for classification`);
   
-  // Load persisted analytics data
-  loadPersistedData();
+  try {
+    loadTaxonomy();
+  } catch (error) {
+    console.error("❌ Could not load the topic taxonomy:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // Load persisted analytics data, pending approvals and reviewer feedback
+  try {
+    loadPersistedData();
+  } catch (error) {
+    console.error("❌ Could not open the analytics store:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  loadPendingApprovals();
+  loadDraftFeedback();
+  loadModerationLog();
+  loadClassificationCache();
+  loadBackfillCursors();
+  loadTrendAlerts();
+  loadHelpThreads();
   
   console.log("   Connecting to Discord...");
   await discordClient.login(process.env.DISCORD_TOKEN);
@@ -927,4 +2528,26 @@ async function sendWeeklyRollup(): Promise<void> {
     // Send initial rollup after 30 seconds (let Discord connection stabilize)
     setTimeout(sendWeeklyRollup, 30000);
   }
+  
+  // Start spike alert checks (first one after the startup backfill has had time to catch up)
+  if (SPIKE_ALERT_CHANNEL) {
+    console.log(`   🚨 Spike alerts enabled (hourly checks, alerts to ${SPIKE_ALERT_CHANNEL})`);
+    setInterval(checkForSpikes, SPIKE_CHECK_INTERVAL_MS);
+    setTimeout(checkForSpikes, 5 * 60 * 1000);
+  }
+  
+  // Start unanswered #help thread checks
+  if (HELP_ESCALATION_CHANNEL) {
+    console.log(`   🆘 Help thread escalation enabled (after ${formatDuration(getHelpReplySlaMs())} without a reply, to ${HELP_ESCALATION_CHANNEL})`);
+    setInterval(escalateUnansweredHelpThreads, HELP_ESCALATION_CHECK_INTERVAL_MS);
+  }
+  
+  // Retry messages labeled by the offline fallback classifier once the LLM is back
+  setInterval(async () => {
+    try {
+      await reclassifyFallbackMessages();
+    } catch (error) {
+      console.error('Failed to re-classify fallback labels:', error);
+    }
+  }, RECLASSIFY_INTERVAL_MS);
 })();
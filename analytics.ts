@@ -1,34 +1,53 @@
-import { ANTHROPIC_CONFIG } from "./models";
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { generateText } from 'ai';
-
-// Initialize Anthropic client
-const anthropic = createAnthropic({
-  baseURL: 'https://api.anthropic.com/v1',
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// Helper function for Anthropic text generation
-async function generateWithAnthropic(prompt: string): Promise<string> {
-  const { text } = await generateText({
-    model: anthropic(ANTHROPIC_CONFIG.model),
-    prompt,
-    maxTokens: 512,
-  });
-  return text;
+import { generateForTask, describeModel } from "./llm";
+import type { LlmTask } from "./models";
+import { getCacheVersion, getCachedValue, setCachedValue } from "./classification-cache";
+import { classifyWithRules } from "./keyword-classifier";
+import {
+  getTopics,
+  getTopicsForChannel,
+  getTopicLabel,
+  getTopicEmoji,
+  isValidTopic,
+  migrateTopic,
+  buildTopicDefinitions,
+  type Topic
+} from "./taxonomy";
+import {
+  loadHelpClusters,
+  clusterHelpTopics,
+  assignHelpTopic,
+  needsRecluster,
+  getHelpClusterForTopic,
+  normalizeHelpPhrase,
+  flushHelpClusters
+} from "./help-clusters";
+import { getStore, type AnalyticsFilter, type TopicCountRow } from "./storage";
+
+// Helper function for text generation (model configured per task in models.ts)
+async function generateWithModel(task: LlmTask, prompt: string, maxOutputTokens: number = 512): Promise<string> {
+  return generateForTask(task, prompt, { maxOutputTokens });
 }
 
 import * as fs from "fs";
 import * as path from "path";
 
-// Topic categories for message classification
-export type Topic = 
-  | 'support-request'
-  | 'feature-request'
-  | 'bug-report'
-  | 'general-discussion'
-  | 'praise'
-  | 'question';
+// Topic categories come from topics.json (see taxonomy.ts)
+export type { Topic } from "./taxonomy";
+export type { AnalyticsFilter } from "./storage";
+
+// Which classifier produced a topic label: the LLM, the offline keyword rules used as a fallback,
+// or a reviewer who confirmed or corrected it in the Slack review queue
+export type ClassificationSource = 'llm' | 'rules' | 'human';
+
+export interface Classification {
+  topic: Topic;
+  source: ClassificationSource;
+  confidence: number; // 0-1, how sure the classifier is
+  rationale?: string; // One short sentence explaining the label
+}
+
+// Where a low-confidence label is in the Slack review queue
+export type ReviewStatus = 'pending' | 'confirmed' | 'corrected';
 
 // Store detailed message info for better analytics
 export interface TrackedMessage {
@@ -36,20 +55,33 @@ export interface TrackedMessage {
   author: string;
   channel: string;
   topic: Topic;
+  classifiedBy?: ClassificationSource; // Missing on older records, which were all LLM-labeled
+  confidence?: number; // Missing on records classified before confidence scores existed
+  rationale?: string;
+  reviewStatus?: ReviewStatus; // Only set on labels that needed a human look
+  reviewedBy?: string; // Slack user who confirmed or corrected the label
+  originalTopic?: Topic; // The classifier's label, when a reviewer corrected it
   helpTopic?: string; // More specific topic for #help channel
   timestamp: Date;
   threadId?: string; // For forum posts - the thread ID
   threadName?: string; // For forum posts - the thread title
   messageId?: string; // Discord message ID for fetching reactions
   channelId?: string; // Discord channel ID for building URLs
+  authorId?: string; // Discord user ID (missing on older records, '' when the message couldn't be fetched to repair it)
+  editHistory?: MessageRevision[]; // Earlier versions of an edited message, oldest first
+  deletedAt?: Date; // Deleted on Discord; kept for the record but left out of reports
+  reactions?: Record<string, number>; // Emoji -> reaction count (missing on records from before reactions were tracked)
 }
 
-// Persistence file path
-const DATA_FILE = path.join(process.cwd(), 'analytics-data.json');
-const CONVERSATIONS_FILE = path.join(process.cwd(), 'conversations-data.json');
+// A version of a message from before it was edited on Discord
+export interface MessageRevision {
+  content: string;
+  topic: Topic;
+  helpTopic?: string;
+  replacedAt: Date; // When the edit replaced it
+}
 
-// In-memory storage
-let messages: TrackedMessage[] = [];
+// In-memory topic counts (messages themselves live in the store, see storage.ts)
 const topicCounts = new Map<string, Map<Topic, number>>();
 
 // Conversation memory - stores full history per user
@@ -59,45 +91,40 @@ export interface ConversationMessage {
   timestamp: Date;
 }
 
-const conversations = new Map<string, ConversationMessage[]>();
 const MAX_CONVERSATION_AGE_HOURS = 24 * 7; // Clear conversations older than 7 days
 
 /**
- * Load persisted data from disk
+ * Load persisted data from the store. Throws if the store itself can't be opened
+ * (e.g. STORAGE_BACKEND=sqlite on a Node without node:sqlite), since every later
+ * read and write would fail too.
  */
 export function loadPersistedData(): void {
+  const store = getStore();
+  store.load();
+
   try {
-    if (fs.existsSync(DATA_FILE)) {
-      const data = JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8'));
-      messages = data.messages.map((m: any) => ({
-        ...m,
-        timestamp: new Date(m.timestamp),
-      }));
+    const total = store.countMessages();
+    if (total > 0) {
+      // Labels that were removed from topics.json
+      const migrated = migrateRetiredTopics();
+      if (migrated > 0) {
+        console.log(`   🏷️ Migrated ${migrated} messages with labels no longer in topics.json`);
+      }
       
       // Rebuild topic counts from messages
-      for (const msg of messages) {
-        if (!topicCounts.has(msg.channel)) {
-          topicCounts.set(msg.channel, new Map());
+      for (const row of store.getTopicCounts()) {
+        if (!topicCounts.has(row.channel)) {
+          topicCounts.set(row.channel, new Map());
         }
-        const channelTopics = topicCounts.get(msg.channel)!;
-        const currentCount = channelTopics.get(msg.topic) ?? 0;
-        channelTopics.set(msg.topic, currentCount + 1);
+        const channelTopics = topicCounts.get(row.channel)!;
+        channelTopics.set(row.topic, (channelTopics.get(row.topic) ?? 0) + row.count);
       }
+
+      // Re-cluster help topics, keeping cluster IDs and names from the last run
+      loadHelpClusters();
+      clusterHelpTopics(getHelpPhraseCounts());
       
-      console.log(`   📂 Loaded ${messages.length} messages from disk`);
-    }
-    
-    // Load conversations
-    if (fs.existsSync(CONVERSATIONS_FILE)) {
-      const convData = JSON.parse(fs.readFileSync(CONVERSATIONS_FILE, 'utf-8'));
-      for (const [userId, msgs] of Object.entries(convData.conversations || {})) {
-        const parsedMsgs = (msgs as any[]).map((m: any) => ({
-          ...m,
-          timestamp: new Date(m.timestamp),
-        }));
-        conversations.set(userId, parsedMsgs);
-      }
-      console.log(`   💬 Loaded ${conversations.size} conversation histories`);
+      console.log(`   📂 Loaded ${total} messages (${store.backend} storage)`);
     }
   } catch (error) {
     console.error('Failed to load persisted data:', error);
@@ -105,60 +132,59 @@ export function loadPersistedData(): void {
 }
 
 /**
- * Check if we have persisted data (to skip historical loading)
- */
-export function hasPersistedData(): boolean {
-  return messages.length > 0;
-}
-
-/**
- * Save analytics data to disk
+ * Write any debounced saves that are still pending (call before exiting)
  */
-function saveData(): void {
+export function flushPersistedData(): void {
   try {
-    fs.writeFileSync(DATA_FILE, JSON.stringify({ messages }, null, 2));
+    getStore().flush();
+    flushHelpClusters();
   } catch (error) {
-    console.error('Failed to save data:', error);
+    console.error('Failed to flush persisted data:', error);
   }
 }
 
 /**
- * Save conversations to disk
+ * Relabel stored messages whose topic was removed from topics.json. Labels with a configured
+ * migration are mapped directly; the rest get a keyword label and are queued for LLM
+ * re-classification (like any other offline fallback label). Returns how many changed.
  */
-function saveConversations(): void {
-  try {
-    const convObj: Record<string, ConversationMessage[]> = {};
-    conversations.forEach((msgs, oderId) => {
-      convObj[oderId] = msgs;
-    });
-    fs.writeFileSync(CONVERSATIONS_FILE, JSON.stringify({ conversations: convObj }, null, 2));
-  } catch (error) {
-    console.error('Failed to save conversations:', error);
+function migrateRetiredTopics(): number {
+  const store = getStore();
+  let migrated = 0;
+  for (const row of store.getTopicCounts()) {
+    if (isValidTopic(row.topic)) continue;
+
+    for (const msg of store.findMessages({ channel: row.channel, topic: row.topic })) {
+      const replacement = migrateTopic(msg.topic);
+      if (replacement) {
+        msg.topic = replacement;
+      } else {
+        const fallback = classifyOffline(msg.content, msg.channel);
+        msg.topic = fallback.topic;
+        msg.classifiedBy = fallback.source;
+        msg.confidence = fallback.confidence;
+        msg.rationale = fallback.rationale;
+      }
+      if (msg.reviewStatus === 'pending') msg.reviewStatus = undefined;
+      store.updateMessage(msg);
+      migrated++;
+    }
   }
+  return migrated;
 }
 
-// Debounce saves to avoid writing too frequently
-let saveTimeout: NodeJS.Timeout | null = null;
-function debouncedSave(): void {
-  if (saveTimeout) clearTimeout(saveTimeout);
-  saveTimeout = setTimeout(saveData, 5000); // Save 5 seconds after last change
-}
-
-let convSaveTimeout: NodeJS.Timeout | null = null;
-function debouncedSaveConversations(): void {
-  if (convSaveTimeout) clearTimeout(convSaveTimeout);
-  convSaveTimeout = setTimeout(saveConversations, 2000);
+/**
+ * Check if we have persisted data (to skip historical loading)
+ */
+export function hasPersistedData(): boolean {
+  return getStore().countMessages() > 0;
 }
 
 /**
  * Add a message to a user's conversation history
  */
 export function addToConversation(userId: string, role: 'user' | 'assistant', content: string): void {
-  if (!conversations.has(userId)) {
-    conversations.set(userId, []);
-  }
-  
-  const history = conversations.get(userId)!;
+  const history = getStore().getConversation(userId);
   
   // Clean up old messages (older than MAX_CONVERSATION_AGE_HOURS)
   const cutoff = new Date(Date.now() - MAX_CONVERSATION_AGE_HOURS * 60 * 60 * 1000);
@@ -170,15 +196,14 @@ export function addToConversation(userId: string, role: 'user' | 'assistant', co
     timestamp: new Date(),
   });
   
-  conversations.set(userId, filtered);
-  debouncedSaveConversations();
+  getStore().setConversation(userId, filtered);
 }
 
 /**
  * Get a user's conversation history
  */
 export function getConversationHistory(userId: string): ConversationMessage[] {
-  const history = conversations.get(userId) || [];
+  const history = getStore().getConversation(userId);
   
   // Filter out old messages
   const cutoff = new Date(Date.now() - MAX_CONVERSATION_AGE_HOURS * 60 * 60 * 1000);
@@ -189,76 +214,116 @@ export function getConversationHistory(userId: string): ConversationMessage[] {
  * Clear a user's conversation history
  */
 export function clearConversation(userId: string): void {
-  conversations.delete(userId);
-  debouncedSaveConversations();
+  getStore().deleteConversation(userId);
 }
 
+// Labels from the offline keyword rules are never very certain
+const RULES_CONFIDENCE = 0.3;
+
+// Default confidence below which LLM labels go to the Slack review queue
+const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
 /**
- * Classify a message using Anthropic Claude
+ * Get the confidence threshold for human review (CLASSIFICATION_REVIEW_THRESHOLD, 0-1)
  */
-export async function classifyMessage(content: string): Promise<Topic> {
-  try {
-    const aiResponse = await generateWithAnthropic(`You are a message classifier. Classify the message into exactly ONE category.
-
-VALID CATEGORIES (you MUST respond with one of these exact values):
-- support-request
-- feature-request
-- bug-report
-- general-discussion
-- praise
-- question
-
-CATEGORY DEFINITIONS:
-- support-request: Help with setup, configuration, installation, or troubleshooting
-- feature-request: Suggesting new features, enhancements, or improvements
-- bug-report: Reporting broken functionality, errors, or unexpected behavior
-- general-discussion: Casual conversation, introductions, greetings, or off-topic
-- praise: Expressing thanks, appreciation, or positive feedback
-- question: Asking about how something works (not troubleshooting)
-
-EXAMPLES:
-"How do I install Coder?" -> support-request
-"Can you add dark mode?" -> feature-request
-"The login page crashes on Safari" -> bug-report
-"Hey everyone, I'm new here!" -> general-discussion
-"Thanks, this is amazing!" -> praise
-"What does this feature do?" -> question
-"Hi, I'm having trouble connecting" -> support-request
-"Love the new update!" -> praise
+export function getReviewThreshold(): number {
+  const value = parseFloat(process.env.CLASSIFICATION_REVIEW_THRESHOLD || '');
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : DEFAULT_REVIEW_THRESHOLD;
+}
+
+// Single-message classifier prompt. {definitions}, {topics} and {content} are filled in per message.
+const DEFAULT_CLASSIFICATION_PROMPT = `You are a message classifier. Classify the message into exactly ONE category.
+
+{definitions}
 
 MESSAGE TO CLASSIFY:
-"${content}"
+"{content}"
 
-RESPOND WITH ONLY ONE OF: support-request, feature-request, bug-report, general-discussion, praise, question`);
-    const result = aiResponse.trim().toLowerCase() as Topic;
-    
-    const validTopics: Topic[] = [
-      'support-request',
-      'feature-request', 
-      'bug-report',
-      'general-discussion',
-      'praise',
-      'question'
-    ];
-    
-    if (validTopics.includes(result)) {
-      return result;
-    }
-    
-    console.warn(`AI returned invalid topic: "${result}", defaulting to general-discussion`);
-    return 'general-discussion';
+RESPOND WITH ONLY a JSON object in this exact shape:
+{"topic": "<one of: {topics}>", "confidence": <0-1, how sure you are>, "rationale": "<one short sentence>"}`;
+
+let promptFileCache: { path: string; template: string } | null = null;
+
+/**
+ * Get the single-message classifier prompt template. CLASSIFICATION_PROMPT_FILE points at
+ * an alternative template (same placeholders), e.g. to evaluate a prompt change before deploying.
+ */
+function getClassificationPromptTemplate(): string {
+  const file = process.env.CLASSIFICATION_PROMPT_FILE;
+  if (!file) return DEFAULT_CLASSIFICATION_PROMPT;
+  if (promptFileCache?.path === file) return promptFileCache.template;
+
+  try {
+    const template = fs.readFileSync(path.resolve(file), 'utf-8');
+    promptFileCache = { path: file, template };
+    return template;
   } catch (error) {
-    console.error('Anthropic classification error:', error);
-    return 'general-discussion';
+    console.error(`Failed to read CLASSIFICATION_PROMPT_FILE "${file}", using the default prompt:`, error);
+    return DEFAULT_CLASSIFICATION_PROMPT;
   }
 }
 
 /**
- * Extract a specific help topic from a message (for #help channel)
+ * Build the single-message classifier prompt for the topics allowed in a channel
  */
-export async function extractHelpTopic(content: string): Promise<string> {
+function buildClassificationPrompt(content: string, allowed: Topic[]): string {
+  return getClassificationPromptTemplate()
+    .replace('{definitions}', () => buildTopicDefinitions(allowed))
+    .replace('{topics}', () => allowed.join(', '))
+    .replace('{content}', () => content);
+}
+
+/**
+ * Parse a {topic, confidence, rationale} object from a model response or cache entry.
+ * Returns null if there's no valid topic in it.
+ */
+function parseClassification(text: string, allowed: Topic[]): Omit<Classification, 'source'> | null {
+  // Tolerate code fences or text around the object
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
   try {
-    const aiResponse = await generateWithAnthropic(`Extract the main topic or issue from this help request. Summarize in 2-5 words.
+    return toClassification(JSON.parse(text.slice(start, end + 1)), allowed);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate one parsed classification object
+ */
+function toClassification(entry: any, allowed: Topic[]): Omit<Classification, 'source'> | null {
+  const topic = String(entry?.topic ?? '').trim().toLowerCase();
+  if (!allowed.includes(topic)) return null;
+
+  const confidence = Number(entry.confidence);
+  const rationale = typeof entry.rationale === 'string' ? entry.rationale.trim() : '';
+  return {
+    topic,
+    // Models occasionally answer on a 0-100 scale
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence > 1 ? confidence / 100 : confidence, 0), 1) : 0,
+    rationale: rationale || undefined,
+  };
+}
+
+/**
+ * Label a message with the offline keyword classifier
+ */
+function classifyOffline(content: string, channel?: string): Classification {
+  return {
+    topic: classifyWithRules(content, channel),
+    source: 'rules',
+    confidence: RULES_CONFIDENCE,
+    rationale: 'Offline keyword classifier (LLM unavailable)',
+  };
+}
+
+/**
+ * Build the help topic extraction prompt
+ */
+function buildHelpTopicPrompt(content: string): string {
+  return `Extract the main topic or issue from this help request. Summarize in 2-5 words.
 
 Examples:
 - "How do I set up VS Code with Coder?" -> "VS Code setup"
@@ -270,16 +335,254 @@ Examples:
 MESSAGE:
 "${content}"
 
-Respond with ONLY the topic (2-5 words), nothing else.`);
-    return aiResponse.trim().toLowerCase() || 'general help';
+Respond with ONLY the topic (2-5 words), nothing else.`;
+}
+
+// Cache versions change whenever the prompt, the taxonomy or the configured model changes
+function topicCacheVersion(): string {
+  return getCacheVersion('topic', buildClassificationPrompt('{content}', getTopicsForChannel()), describeModel('classification'));
+}
+
+// Channels with their own topic subset get their own cache entries
+function topicCacheContent(content: string, allowed: Topic[]): string {
+  return `${allowed.join(',')}\n${content}`;
+}
+
+function helpTopicCacheVersion(): string {
+  return getCacheVersion('help-topic', buildHelpTopicPrompt('{content}'), describeModel('help-topic'));
+}
+
+// Batch answers come from a different prompt (and, for help topics, a different model) on
+// truncated content, so they're cached under their own kinds and never mix with (or
+// invalidate) single-message entries
+function batchCacheVersion(kind: 'topic-batch' | 'help-topic-batch'): string {
+  const template = `${buildBatchClassificationPrompt('{messages}', getTopicsForChannel())}\n(content cut at ${BATCH_CONTENT_MAX_LENGTH})`;
+  return getCacheVersion(kind, template, describeModel('classification'));
+}
+
+/**
+ * Classify a message using the classification model (cached by content), limited to the
+ * channel's topics. Falls back to the offline keyword classifier if the model fails or
+ * returns something unexpected.
+ */
+export async function classifyMessage(content: string, channel?: string): Promise<Classification> {
+  const allowed = getTopicsForChannel(channel);
+  const version = topicCacheVersion();
+  const cacheContent = topicCacheContent(content, allowed);
+  const cached = getCachedValue('topic', version, cacheContent);
+  const cachedResult = cached ? parseClassification(cached, allowed) : null;
+  if (cachedResult) {
+    return { ...cachedResult, source: 'llm' };
+  }
+
+  try {
+    const aiResponse = await generateWithModel('classification', buildClassificationPrompt(content, allowed));
+    const result = parseClassification(aiResponse, allowed);
+    
+    if (result) {
+      setCachedValue('topic', version, cacheContent, JSON.stringify(result));
+      return { ...result, source: 'llm' };
+    }
+    
+    console.warn(`AI returned invalid classification: "${aiResponse.trim()}", falling back to keyword classifier`);
   } catch (error) {
-    console.error('Anthropic help topic extraction error:', error);
+    console.error('Classification error, falling back to keyword classifier:', error);
+  }
+
+  return classifyOffline(content, channel);
+}
+
+/**
+ * Extract a specific help topic from a message (for #help channel, cached by content)
+ */
+export async function extractHelpTopic(content: string): Promise<string> {
+  const version = helpTopicCacheVersion();
+  const cached = getCachedValue('help-topic', version, content);
+  if (cached) return cached;
+
+  try {
+    const aiResponse = await generateWithModel('help-topic', buildHelpTopicPrompt(content));
+    const helpTopic = aiResponse.trim().toLowerCase();
+    if (helpTopic) {
+      setCachedValue('help-topic', version, content, helpTopic);
+    }
+    return helpTopic || 'general help';
+  } catch (error) {
+    console.error('Help topic extraction error:', error);
     return 'general help';
   }
 }
 
+// A message to classify as part of a batch
+export interface BatchClassificationItem {
+  id: string; // Usually the Discord message ID
+  content: string;
+  channel: string; // Help topics are only extracted for #help
+}
+
+export interface BatchClassificationResult extends Classification {
+  helpTopic?: string;
+}
+
+// Messages per batch prompt (keeps the response well within the output token limit)
+const CLASSIFICATION_BATCH_SIZE = 25;
+
+// Long messages are truncated in batch prompts; the start is enough to classify them
+const BATCH_CONTENT_MAX_LENGTH = 1000;
+
+/**
+ * Classify many messages with one prompt per batch, falling back to per-message calls
+ * for anything the batch response didn't cover
+ */
+export async function classifyMessagesBatch(
+  items: BatchClassificationItem[]
+): Promise<Map<string, BatchClassificationResult>> {
+  const results = new Map<string, BatchClassificationResult>();
+  const topicVersion = batchCacheVersion('topic-batch');
+  const helpTopicVersion = batchCacheVersion('help-topic-batch');
+
+  // Anything already in the cache doesn't need to go to the model at all
+  const uncached: BatchClassificationItem[] = [];
+  for (const item of items) {
+    const allowed = getTopicsForChannel(item.channel);
+    const cached = getCachedValue('topic-batch', topicVersion, topicCacheContent(item.content, allowed));
+    const classification = cached ? parseClassification(cached, allowed) : null;
+    const needsHelpTopic = item.channel === 'help';
+    const helpTopic = needsHelpTopic ? getCachedValue('help-topic-batch', helpTopicVersion, item.content) : undefined;
+
+    if (classification && (!needsHelpTopic || helpTopic)) {
+      results.set(item.id, { ...classification, source: 'llm', helpTopic });
+    } else {
+      uncached.push(item);
+    }
+  }
+
+  if (items.length > 0) {
+    console.log(`   🗃️ Batch classification: ${items.length - uncached.length}/${items.length} served from cache`);
+  }
+
+  // Each batch prompt lists one set of topics, so group channels that share a topic subset
+  const groups = new Map<string, BatchClassificationItem[]>();
+  for (const item of uncached) {
+    const key = getTopicsForChannel(item.channel).join(',');
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  for (const group of groups.values()) {
+    const allowed = getTopicsForChannel(group[0]!.channel);
+
+    for (let i = 0; i < group.length; i += CLASSIFICATION_BATCH_SIZE) {
+      const batch = group.slice(i, i + CLASSIFICATION_BATCH_SIZE);
+      const batchResults = await classifyBatchWithModel(batch, allowed);
+
+      for (const item of batch) {
+        const result = batchResults.get(item.id);
+        const needsHelpTopic = item.channel === 'help';
+
+        if (result) {
+          const { topic, confidence, rationale } = result;
+          setCachedValue('topic-batch', topicVersion, topicCacheContent(item.content, allowed), JSON.stringify({ topic, confidence, rationale }));
+          if (result.helpTopic) {
+            setCachedValue('help-topic-batch', helpTopicVersion, item.content, result.helpTopic);
+          }
+        }
+
+        if (result && (!needsHelpTopic || result.helpTopic)) {
+          results.set(item.id, result);
+          continue;
+        }
+
+        // Not covered by the batch response - classify this one on its own
+        const classification = result ?? await classifyMessage(item.content, item.channel);
+        results.set(item.id, {
+          topic: classification.topic,
+          source: classification.source,
+          confidence: classification.confidence,
+          rationale: classification.rationale,
+          helpTopic: needsHelpTopic ? await extractHelpTopic(item.content) : undefined,
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Build the batch classifier prompt for a list of messages (one JSON object per line)
+ */
+function buildBatchClassificationPrompt(messageList: string, allowed: Topic[]): string {
+  return `You are a message classifier. Classify EACH message below into exactly ONE category.
+
+${buildTopicDefinitions(allowed)}
+
+For messages with "needsHelpTopic": true, also extract the main topic or issue in 2-5 words (e.g. "VS Code setup", "workspace crashes", "SSH issues").
+
+MESSAGES (one JSON object per line):
+${messageList}
+
+RESPOND WITH ONLY a JSON array, one object per message, in this exact shape:
+[{"id": "<id>", "topic": "<category>", "confidence": <0-1, how sure you are>, "rationale": "<one short sentence>", "helpTopic": "<2-5 words, only when needsHelpTopic>"}]`;
+}
+
+/**
+ * Send one batch to the classification model and parse whatever it returns
+ */
+async function classifyBatchWithModel(batch: BatchClassificationItem[], allowed: Topic[]): Promise<Map<string, BatchClassificationResult>> {
+  const results = new Map<string, BatchClassificationResult>();
+
+  const messageList = batch
+    .map(item => JSON.stringify({
+      id: item.id,
+      needsHelpTopic: item.channel === 'help',
+      message: item.content.substring(0, BATCH_CONTENT_MAX_LENGTH),
+    }))
+    .join('\n');
+
+  try {
+    const aiResponse = await generateWithModel('classification', buildBatchClassificationPrompt(messageList, allowed), 4096);
+
+    // Tolerate code fences or text around the array
+    const start = aiResponse.indexOf('[');
+    const end = aiResponse.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+      console.warn(`Batch classification returned no JSON array for ${batch.length} messages`);
+      return results;
+    }
+
+    const parsed = JSON.parse(aiResponse.slice(start, end + 1));
+    const ids = new Set(batch.map(item => item.id));
+
+    for (const entry of Array.isArray(parsed) ? parsed : []) {
+      const id = String(entry?.id ?? '');
+      const classification = toClassification(entry, allowed);
+      if (!ids.has(id) || !classification) continue;
+
+      const helpTopic = typeof entry.helpTopic === 'string' ? entry.helpTopic.trim().toLowerCase() : '';
+      results.set(id, { ...classification, source: 'llm', helpTopic: helpTopic || undefined });
+    }
+  } catch (error) {
+    console.error('Batch classification error:', error);
+  }
+
+  return results;
+}
+
+// Optional details for recordMessage
+export interface RecordMessageOptions {
+  helpTopic?: string; // Already extracted (e.g. by classifyMessagesBatch), skips the extra model call
+  classifiedBy?: ClassificationSource; // Defaults to 'llm'
+  confidence?: number;
+  rationale?: string;
+  timestamp?: Date; // When the message was posted on Discord (defaults to now)
+  authorId?: string; // Discord user ID of the author
+  reactions?: Record<string, number>; // Reaction counts at the time it was fetched (e.g. by a backfill)
+}
+
 /**
- * Record a message with full details
+ * Record a message with full details. LLM labels below the review threshold are
+ * marked for the Slack review queue. Recording is an upsert on the Discord message ID,
+ * so recording the same message again (e.g. a re-run backfill) updates it instead of double-counting.
  */
 export async function recordMessage(
   content: string,
@@ -289,38 +592,305 @@ export async function recordMessage(
   threadId?: string,
   threadName?: string,
   messageId?: string,
-  channelId?: string
-): Promise<void> {
-  let helpTopic: string | undefined;
+  channelId?: string,
+  options: RecordMessageOptions = {}
+): Promise<TrackedMessage> {
+  const existing = messageId ? getStore().getMessageById(messageId) : undefined;
+  // Deleted on Discord since it was first recorded (e.g. a backfill raced the delete event)
+  if (existing?.deletedAt) return existing;
+  let helpTopic = options.helpTopic ?? existing?.helpTopic;
   
   // For help channel, extract specific topic
-  if (channel === 'help') {
+  if (channel === 'help' && !helpTopic) {
     helpTopic = await extractHelpTopic(content);
   }
   
-  messages.push({
+  const classifiedBy = options.classifiedBy ?? 'llm';
+  // Rules labels are re-classified automatically, so only uncertain LLM labels need a human
+  const needsReview = classifiedBy === 'llm'
+    && options.confidence !== undefined
+    && options.confidence < getReviewThreshold();
+
+  if (existing) {
+    return updateRecordedMessage(existing, {
+      content, author, authorId: options.authorId ?? existing.authorId, channel, threadId, threadName, channelId,
+      timestamp: options.timestamp ?? existing.timestamp,
+      reactions: options.reactions ?? existing.reactions,
+      helpTopic,
+      classification: { topic, classifiedBy, confidence: options.confidence, rationale: options.rationale, needsReview },
+    });
+  }
+
+  const tracked: TrackedMessage = {
     content,
     author,
     channel,
     topic,
+    classifiedBy,
+    confidence: options.confidence,
+    rationale: options.rationale,
+    reviewStatus: needsReview ? 'pending' : undefined,
     helpTopic,
-    timestamp: new Date(),
+    timestamp: options.timestamp ?? new Date(),
     threadId,
     threadName,
     messageId,
     channelId,
-  });
+    authorId: options.authorId,
+    reactions: options.reactions,
+  };
+  getStore().addMessage(tracked);
   
   // Also update counts
+  adjustTopicCount(channel, topic, 1);
+
+  // Group the help topic with similar ones, rebuilding clusters once enough new topics arrived
+  if (helpTopic) {
+    assignHelpTopic(helpTopic);
+    if (needsRecluster()) {
+      clusterHelpTopics(getHelpPhraseCounts());
+    }
+  }
+  
+  return tracked;
+}
+
+/**
+ * Apply a repeat recording of a message to its stored record. Labels a reviewer confirmed
+ * or corrected are kept.
+ */
+function updateRecordedMessage(
+  msg: TrackedMessage,
+  update: Pick<TrackedMessage, 'content' | 'author' | 'authorId' | 'channel' | 'threadId' | 'threadName' | 'channelId' | 'timestamp' | 'helpTopic' | 'reactions'> & {
+    classification: { topic: Topic; classifiedBy: ClassificationSource; confidence?: number; rationale?: string; needsReview: boolean };
+  }
+): TrackedMessage {
+  const { classification, ...fields } = update;
+
+  adjustTopicCount(msg.channel, msg.topic, -1);
+  const helpTopicChanged = fields.helpTopic !== msg.helpTopic;
+  Object.assign(msg, fields);
+
+  if (msg.classifiedBy !== 'human') {
+    msg.topic = classification.topic;
+    msg.classifiedBy = classification.classifiedBy;
+    msg.confidence = classification.confidence;
+    msg.rationale = classification.rationale;
+    msg.reviewStatus = classification.needsReview ? 'pending' : undefined;
+  }
+  adjustTopicCount(msg.channel, msg.topic, 1);
+
+  if (helpTopicChanged && msg.helpTopic) {
+    assignHelpTopic(msg.helpTopic);
+  }
+
+  getStore().updateMessage(msg);
+  return msg;
+}
+
+/**
+ * Add to (or subtract from) a channel's topic count
+ */
+function adjustTopicCount(channel: string, topic: Topic, delta: number): void {
   if (!topicCounts.has(channel)) {
     topicCounts.set(channel, new Map());
   }
   const channelTopics = topicCounts.get(channel)!;
   const currentCount = channelTopics.get(topic) ?? 0;
-  channelTopics.set(topic, currentCount + 1);
-  
-  // Persist to disk
-  debouncedSave();
+  channelTopics.set(topic, Math.max(currentCount + delta, 0));
+}
+
+/**
+ * Count stored messages labeled by the offline fallback classifier
+ */
+export function getFallbackLabelCount(filter: AnalyticsFilter = {}): number {
+  return getStore().countMessages({ ...filter, classifiedBy: 'rules' });
+}
+
+/**
+ * Re-classify messages that were labeled by the offline fallback once the LLM is reachable again.
+ * Returns how many labels were replaced with LLM labels.
+ */
+export async function reclassifyFallbackMessages(limit: number = 200): Promise<number> {
+  const store = getStore();
+  const fallback = store.findMessages({ classifiedBy: 'rules', limit });
+  if (fallback.length === 0) return 0;
+
+  // Probe with one message first so we don't run a whole batch while the LLM is still down
+  const [first, ...rest] = fallback;
+  const probe = await classifyMessage(first!.content, first!.channel);
+  if (probe.source !== 'llm') return 0;
+
+  const results = new Map<string, Classification>([['0', probe]]);
+  const batchResults = await classifyMessagesBatch(
+    rest.map((m, i) => ({ id: String(i + 1), content: m.content, channel: m.channel }))
+  );
+  batchResults.forEach((result, id) => results.set(id, result));
+
+  let updated = 0;
+  fallback.forEach((msg, i) => {
+    const result = results.get(String(i));
+    if (!result || result.source !== 'llm') return;
+
+    adjustTopicCount(msg.channel, msg.topic, -1);
+    adjustTopicCount(msg.channel, result.topic, 1);
+    msg.topic = result.topic;
+    msg.classifiedBy = 'llm';
+    msg.confidence = result.confidence;
+    msg.rationale = result.rationale;
+    if (msg.messageId && result.confidence < getReviewThreshold()) {
+      msg.reviewStatus = 'pending';
+    }
+    store.updateMessage(msg);
+    updated++;
+  });
+
+  if (updated > 0) {
+    console.log(`   🔁 Re-classified ${updated} fallback-labeled messages with the LLM`);
+  }
+  return updated;
+}
+
+/**
+ * Get labels waiting in the review queue, oldest first
+ */
+export function getPendingReviews(limit: number = 10): TrackedMessage[] {
+  return getStore().findMessages({ reviewStatus: 'pending', withMessageId: true, limit });
+}
+
+/**
+ * Get a tracked message by its Discord message ID
+ */
+export function getTrackedMessage(messageId: string): TrackedMessage | undefined {
+  return getStore().getMessageById(messageId);
+}
+
+/**
+ * Re-classify a tracked message after it was edited on Discord, keeping the earlier
+ * version in its edit history. Returns undefined if the message isn't tracked or
+ * the text didn't change (Discord also sends updates for embeds loading).
+ */
+export async function recordMessageEdit(messageId: string, content: string, editedAt: Date): Promise<TrackedMessage | undefined> {
+  const msg = getStore().getMessageById(messageId);
+  if (!msg || msg.deletedAt || msg.content === content) return undefined;
+
+  const classification = await classifyMessage(content, msg.channel);
+  const helpTopic = msg.channel === 'help' ? await extractHelpTopic(content) : undefined;
+
+  msg.editHistory = [
+    ...(msg.editHistory ?? []),
+    { content: msg.content, topic: msg.topic, helpTopic: msg.helpTopic, replacedAt: editedAt },
+  ];
+  adjustTopicCount(msg.channel, msg.topic, -1);
+  adjustTopicCount(msg.channel, classification.topic, 1);
+
+  msg.content = content;
+  msg.topic = classification.topic;
+  msg.classifiedBy = classification.source;
+  msg.confidence = classification.confidence;
+  msg.rationale = classification.rationale;
+  // An earlier review was of the old text
+  msg.reviewStatus = classification.source === 'llm' && classification.confidence < getReviewThreshold() ? 'pending' : undefined;
+  msg.reviewedBy = undefined;
+  msg.originalTopic = undefined;
+
+  if (helpTopic && helpTopic !== msg.helpTopic) {
+    msg.helpTopic = helpTopic;
+    assignHelpTopic(helpTopic);
+  }
+
+  getStore().updateMessage(msg);
+  return msg;
+}
+
+/**
+ * Soft-delete a tracked message that was deleted on Discord. Returns false if it isn't tracked.
+ */
+export function markMessageDeleted(messageId: string, deletedAt: Date = new Date()): boolean {
+  const msg = getStore().getMessageById(messageId);
+  if (!msg || msg.deletedAt) return false;
+
+  msg.deletedAt = deletedAt;
+  if (msg.reviewStatus === 'pending') msg.reviewStatus = undefined;
+  adjustTopicCount(msg.channel, msg.topic, -1);
+  getStore().updateMessage(msg);
+  return true;
+}
+
+/**
+ * Get stored records from before author IDs and real Discord timestamps were recorded
+ */
+export function getMessagesNeedingRepair(limit: number = 500): TrackedMessage[] {
+  return getStore().findMessages({ missingAuthorId: true, withMessageId: true, limit });
+}
+
+/**
+ * Correct a stored record with details fetched from Discord. When the message can't be
+ * fetched (e.g. it was deleted) pass only the timestamp read from its snowflake ID.
+ */
+export function repairTrackedMessage(msg: TrackedMessage, details: { timestamp: Date; authorId?: string }): void {
+  msg.timestamp = details.timestamp;
+  msg.authorId = details.authorId ?? '';
+  getStore().updateMessage(msg);
+}
+
+/**
+ * Remove records that share a Discord message ID with an earlier one (from backfills run
+ * before recording was an upsert). Returns how many were removed.
+ */
+export function removeDuplicateMessages(): number {
+  const seen = new Set<string>();
+  const duplicates: TrackedMessage[] = [];
+  for (const msg of getStore().findMessages({ withMessageId: true, includeDeleted: true })) {
+    if (seen.has(msg.messageId!)) {
+      duplicates.push(msg);
+    } else {
+      seen.add(msg.messageId!);
+    }
+  }
+
+  if (duplicates.length > 0) {
+    getStore().deleteMessages(duplicates);
+    for (const msg of duplicates) {
+      if (!msg.deletedAt) adjustTopicCount(msg.channel, msg.topic, -1);
+    }
+  }
+  return duplicates.length;
+}
+
+/**
+ * Get the newest tracked Discord message ID in a channel (or forum thread)
+ */
+export function getNewestTrackedMessageId(channelId: string): string | undefined {
+  let newest: string | undefined;
+  for (const msg of getStore().findMessages({ channelId, withMessageId: true })) {
+    if (!newest || BigInt(msg.messageId!) > BigInt(newest)) newest = msg.messageId;
+  }
+  return newest;
+}
+
+/**
+ * Confirm or correct a message's label from the review queue.
+ * Corrections are written to the record and to the per-channel topic counts.
+ */
+export function reviewMessageTopic(messageId: string, topic: Topic, reviewer: string): TrackedMessage | undefined {
+  const msg = getTrackedMessage(messageId);
+  if (!msg || msg.deletedAt || !isValidTopic(topic)) return undefined;
+
+  if (msg.topic !== topic) {
+    adjustTopicCount(msg.channel, msg.topic, -1);
+    adjustTopicCount(msg.channel, topic, 1);
+    msg.originalTopic = msg.originalTopic ?? msg.topic;
+    msg.topic = topic;
+    msg.reviewStatus = 'corrected';
+  } else {
+    msg.reviewStatus = msg.originalTopic ? 'corrected' : 'confirmed';
+  }
+  msg.classifiedBy = 'human';
+  msg.reviewedBy = reviewer;
+
+  getStore().updateMessage(msg);
+  return msg;
 }
 
 /**
@@ -335,116 +905,113 @@ export function recordTopic(channel: string, topic: Topic): void {
   channelTopics.set(topic, currentCount + 1);
 }
 
+// A message that shows what a help topic cluster is about
+export interface HelpTopicExample {
+  content: string;
+  threadId?: string;
+  threadName?: string;
+  messageId?: string;
+  channelId?: string;
+}
+
+export interface HelpTopicSummary {
+  clusterId?: string; // Missing for topics that haven't been clustered yet
+  topic: string; // Cluster name
+  count: number;
+  examples: HelpTopicExample[]; // Most recent first, one per thread
+}
+
+// Example threads shown per help topic cluster
+const HELP_TOPIC_EXAMPLES = 3;
+
 /**
- * Normalize a help topic to consolidate similar topics
+ * Count how often each (normalized) help topic phrase was extracted
  */
-function normalizeHelpTopic(topic: string): string {
-  let normalized = topic
-    .toLowerCase()
-    .trim()
-    .replace(/["']/g, '')           // Remove quotes
-    .replace(/\s+/g, ' ')           // Normalize whitespace
-    .replace(/issues?$/i, 'issue')  // Normalize plural "issues" to "issue"
-    .replace(/problems?$/i, 'issue') // "problem(s)" -> "issue"
-    .replace(/errors?$/i, 'error')  // Normalize plural "errors"
-    .replace(/questions?$/i, 'question'); // Normalize plural
-  
-  // Map common variations to canonical forms
-  const mappings: Record<string, string> = {
-    'coder setup': 'coder setup issue',
-    'coder configuration': 'coder setup issue',
-    'coder install': 'coder setup issue',
-    'coder installation': 'coder setup issue',
-    'vs code setup': 'vs code issue',
-    'vscode setup': 'vs code issue',
-    'vs code issue': 'vs code issue',
-    'vscode issue': 'vs code issue',
-    'vs code connection': 'vs code issue',
-    'workspace issue': 'workspace issue',
-    'workspace crash': 'workspace issue',
-    'workspace connection': 'workspace issue',
-    'ssh issue': 'ssh issue',
-    'ssh connection': 'ssh issue',
-    'ssh setup': 'ssh issue',
-    'docker issue': 'docker issue',
-    'docker setup': 'docker issue',
-    'devcontainer issue': 'devcontainer issue',
-    'devcontainer setup': 'devcontainer issue',
-    'template issue': 'template issue',
-    'template setup': 'template issue',
-    'authentication issue': 'authentication issue',
-    'auth issue': 'authentication issue',
-    'login issue': 'authentication issue',
-    'git issue': 'git issue',
-    'git authentication': 'git issue',
-    'github issue': 'git issue',
-    'unknown issue': 'general help',
-    'no main topic extracted': 'general help',
-    'general help': 'general help',
-  };
-  
-  // Check for mapping matches
-  for (const [pattern, canonical] of Object.entries(mappings)) {
-    if (normalized.includes(pattern)) {
-      return canonical;
-    }
+function getHelpPhraseCounts(): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { helpTopic, count } of getStore().getHelpTopicCounts()) {
+    const phrase = normalizeHelpPhrase(helpTopic);
+    counts.set(phrase, (counts.get(phrase) ?? 0) + count);
   }
-  
-  return normalized;
+  return counts;
 }
 
 /**
- * Get top help topics with counts
+ * Get top help topic clusters with counts and example threads
  */
-export function getTopHelpTopics(limit: number = 5): { topic: string; count: number }[] {
-  const helpMessages = messages.filter(m => m.channel === 'help' && m.helpTopic);
-  
-  // Count occurrences of each help topic (normalized)
-  const topicCounts = new Map<string, number>();
-  for (const msg of helpMessages) {
-    const normalized = normalizeHelpTopic(msg.helpTopic!);
-    const current = topicCounts.get(normalized) ?? 0;
-    topicCounts.set(normalized, current + 1);
+export function getTopHelpTopics(limit: number = 5, filter: AnalyticsFilter = {}): HelpTopicSummary[] {
+  const store = getStore();
+
+  // Count occurrences of each cluster, remembering which raw topics belong to it
+  const clusterSummaries = new Map<string, { summary: HelpTopicSummary; helpTopics: string[] }>();
+  for (const { helpTopic, count } of store.getHelpTopicCounts(filter)) {
+    const cluster = getHelpClusterForTopic(helpTopic);
+    const key = cluster?.id ?? normalizeHelpPhrase(helpTopic);
+
+    let entry = clusterSummaries.get(key);
+    if (!entry) {
+      entry = { summary: { clusterId: cluster?.id, topic: cluster?.name ?? key, count: 0, examples: [] }, helpTopics: [] };
+      clusterSummaries.set(key, entry);
+    }
+    entry.summary.count += count;
+    entry.helpTopics.push(helpTopic);
   }
   
-  // Sort by count and return top N
-  return Array.from(topicCounts.entries())
-    .map(([topic, count]) => ({ topic, count }))
-    .sort((a, b) => b.count - a.count)
+  // Sort by count, then collect recent example threads for the top N
+  const top = Array.from(clusterSummaries.values())
+    .sort((a, b) => b.summary.count - a.summary.count)
     .slice(0, limit);
+
+  for (const { summary, helpTopics } of top) {
+    const recent = store.findMessages({ ...filter, channel: 'help', helpTopics, newestFirst: true, limit: HELP_TOPIC_EXAMPLES * 10 });
+    for (const msg of recent) {
+      const exampleKey = msg.threadId ?? msg.messageId;
+      if (summary.examples.length >= HELP_TOPIC_EXAMPLES) break;
+      if (!exampleKey || summary.examples.some(e => (e.threadId ?? e.messageId) === exampleKey)) continue;
+      summary.examples.push({
+        content: msg.content,
+        threadId: msg.threadId,
+        threadName: msg.threadName,
+        messageId: msg.messageId,
+        channelId: msg.channelId,
+      });
+    }
+  }
+
+  return top.map(entry => entry.summary);
+}
+
+/**
+ * Format a help topic's example threads as Slack links
+ */
+function formatHelpTopicExamples(examples: HelpTopicExample[], guildId: string): string {
+  const links = examples.map(e => {
+    const title = (e.threadName || e.content).replace(/\n/g, ' ');
+    const label = title.length > 60 ? title.substring(0, 60) + '...' : title;
+    const url = e.threadId
+      ? `https://discord.com/channels/${guildId}/${e.threadId}`
+      : `https://discord.com/channels/${guildId}/${e.channelId}/${e.messageId}`;
+    return `<${url}|${label.replace(/[<>|]/g, '')}>`;
+  });
+  return links.length > 0 ? `\n      _e.g._ ${links.join(' · ')}` : '';
 }
 
 /**
  * Get top threads by reply count (threads with minReplies or more)
  */
-export function getTopThreads(minReplies: number = 5, limit: number = 5): { threadId: string; threadName: string; replyCount: number }[] {
-  // Count messages per thread
-  const threadCounts = new Map<string, { name: string; count: number }>();
-  
-  for (const msg of messages) {
-    if (msg.threadId && msg.threadName) {
-      const current = threadCounts.get(msg.threadId);
-      if (current) {
-        current.count++;
-      } else {
-        threadCounts.set(msg.threadId, { name: msg.threadName, count: 1 });
-      }
-    }
-  }
-  
-  // Filter by minReplies and sort by count
-  return Array.from(threadCounts.entries())
-    .filter(([_, data]) => data.count >= minReplies)
-    .map(([threadId, data]) => ({ threadId, threadName: data.name, replyCount: data.count }))
-    .sort((a, b) => b.replyCount - a.replyCount)
-    .slice(0, limit);
+export function getTopThreads(
+  minReplies: number = 5,
+  limit: number = 5,
+  filter: AnalyticsFilter = {}
+): { threadId: string; threadName: string; replyCount: number }[] {
+  return getStore().getTopThreads(minReplies, limit, filter);
 }
 
 /**
  * Format top threads for Slack with Discord links
  */
-export function formatTopThreadsForSlack(guildId: string): { text: string; blocks: object[] } {
-  const topThreads = getTopThreads(5, 5);
+export function formatTopThreadsForSlack(guildId: string, filter: AnalyticsFilter = {}): { text: string; blocks: object[] } {
+  const topThreads = getTopThreads(5, 5, filter);
   
   if (topThreads.length === 0) {
     return {
@@ -452,7 +1019,12 @@ export function formatTopThreadsForSlack(guildId: string): { text: string; block
       blocks: [
         {
           type: 'section',
-          text: { type: 'mrkdwn', text: "📊 *Top Help Threads*\n\n_No threads with 5+ replies yet. Data will appear as discussions grow._" },
+          text: {
+            type: 'mrkdwn',
+            text: isUnfiltered(filter)
+              ? "📊 *Top Help Threads*\n\n_No threads with 5+ replies yet. Data will appear as discussions grow._"
+              : `📊 *Top Help Threads*\n\n_No threads with 5+ replies (${describeAnalyticsFilter(filter)})._`,
+          },
         },
       ],
     };
@@ -479,7 +1051,7 @@ export function formatTopThreadsForSlack(guildId: string): { text: string; block
       {
         type: 'context',
         elements: [
-          { type: 'mrkdwn', text: `_Click a thread title to view it in Discord_` },
+          { type: 'mrkdwn', text: `_${describeAnalyticsFilter(filter)} · Click a thread title to view it in Discord_` },
         ],
       },
     ],
@@ -490,30 +1062,70 @@ export function formatTopThreadsForSlack(guildId: string): { text: string; block
  * Get recent messages from a channel
  */
 export function getRecentMessages(channel: string, limit: number = 10): TrackedMessage[] {
-  return messages
-    .filter(m => m.channel === channel)
-    .slice(-limit);
+  return getStore().findMessages({ channel, newestFirst: true, limit }).reverse();
 }
 
 /**
  * Get all tracked messages
  */
 export function getAllMessages(): TrackedMessage[] {
-  return [...messages];
+  return getStore().findMessages();
+}
+
+/**
+ * Count tracked messages (without loading them)
+ */
+export function getMessageCount(filter: AnalyticsFilter = {}): number {
+  return getStore().countMessages(filter);
+}
+
+/**
+ * True when a filter covers everything (the in-memory topic counts can answer it)
+ */
+function isUnfiltered(filter: AnalyticsFilter): boolean {
+  return !filter.since && !filter.until && !filter.channels;
+}
+
+/**
+ * Describe a report filter for Slack ("Since 2026-09-01 in #help", "All time")
+ */
+export function describeAnalyticsFilter(filter: AnalyticsFilter): string {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  let period = 'All time';
+  if (filter.since && filter.until) {
+    period = `${day(filter.since)} to ${day(new Date(filter.until.getTime() - 1))}`;
+  } else if (filter.since) {
+    period = `Since ${day(filter.since)}`;
+  } else if (filter.until) {
+    period = `Before ${day(filter.until)}`;
+  }
+  return filter.channels ? `${period} in ${filter.channels.map(c => `#${c}`).join(', ')}` : period;
+}
+
+/**
+ * Get per-channel topic counts for a filter
+ */
+function getTopicCountRows(filter: AnalyticsFilter): TopicCountRow[] {
+  if (!isUnfiltered(filter)) return getStore().getTopicCounts(filter);
+
+  const rows: TopicCountRow[] = [];
+  topicCounts.forEach((topics, channel) => {
+    topics.forEach((count, topic) => rows.push({ channel, topic, count }));
+  });
+  return rows;
 }
 
 /**
  * Get topic summary across all channels
  */
-export function getTopicSummary(): Record<string, Record<Topic, number>> {
+export function getTopicSummary(filter: AnalyticsFilter = {}): Record<string, Record<Topic, number>> {
   const summary: Record<string, Record<Topic, number>> = {};
   
-  topicCounts.forEach((topics, channel) => {
-    summary[channel] = {} as Record<Topic, number>;
-    topics.forEach((count, topic) => {
-      summary[channel][topic] = count;
-    });
-  });
+  for (const { channel, topic, count } of getTopicCountRows(filter)) {
+    const channelTopics = summary[channel] ?? {};
+    channelTopics[topic] = count;
+    summary[channel] = channelTopics;
+  }
   
   return summary;
 }
@@ -521,21 +1133,15 @@ export function getTopicSummary(): Record<string, Record<Topic, number>> {
 /**
  * Get total counts across all channels
  */
-export function getTotalCounts(): Record<Topic, number> {
-  const totals: Record<Topic, number> = {
-    'support-request': 0,
-    'feature-request': 0,
-    'bug-report': 0,
-    'general-discussion': 0,
-    'praise': 0,
-    'question': 0,
-  };
+export function getTotalCounts(filter: AnalyticsFilter = {}): Record<Topic, number> {
+  const totals: Record<Topic, number> = {};
+  for (const t of getTopics()) {
+    totals[t.id] = 0;
+  }
   
-  topicCounts.forEach((topics) => {
-    topics.forEach((count, topic) => {
-      totals[topic] += count;
-    });
-  });
+  for (const { topic, count } of getTopicCountRows(filter)) {
+    totals[topic] = (totals[topic] ?? 0) + count;
+  }
   
   return totals;
 }
@@ -548,8 +1154,8 @@ export async function answerAnalyticsQuestion(question: string, userId?: string)
   const topThreads = getTopThreads(5, 5); // Threads with 5+ replies
   const summary = getTopicSummary();
   const totals = getTotalCounts();
-  const totalMessages = messages.length;
-  const helpMessages = messages.filter(m => m.channel === 'help');
+  const totalMessages = getMessageCount();
+  const helpMessageCount = getStore().countMessages({ channel: 'help' });
   
   // Get conversation history if userId provided
   const conversationHistory = userId ? getConversationHistory(userId) : [];
@@ -566,7 +1172,7 @@ export async function answerAnalyticsQuestion(question: string, userId?: string)
 You are an analytics assistant for a Discord community bot. Answer questions based on this data:
 
 TOTAL MESSAGES TRACKED: ${totalMessages}
-TOTAL HELP CHANNEL MESSAGES: ${helpMessages.length}
+TOTAL HELP CHANNEL MESSAGES: ${helpMessageCount}
 
 TOP 5 MOST ACTIVE THREADS (5+ replies - these are the hot discussions):
 ${topThreads.length > 0 
@@ -575,16 +1181,11 @@ ${topThreads.length > 0
 
 TOP HELP TOPICS BY CATEGORY:
 ${topHelpTopics.length > 0 
-  ? topHelpTopics.slice(0, 5).map((t, i) => `${i + 1}.) ${t.topic} (${t.count} requests)`).join('\n')
+  ? topHelpTopics.slice(0, 5).map((t, i) => `${i + 1}.) ${t.topic} (${t.count} requests)${t.examples.length > 0 ? ` e.g. ${t.examples.map(e => `"${e.threadName || e.content.substring(0, 80)}"`).join(', ')}` : ''}`).join('\n')
   : 'No help topics tracked yet'}
 
 MESSAGE TYPES ACROSS ALL CHANNELS:
-- Support Requests: ${totals['support-request']}
-- Feature Requests: ${totals['feature-request']}
-- Bug Reports: ${totals['bug-report']}
-- Questions: ${totals['question']}
-- Praise: ${totals['praise']}
-- General Discussion: ${totals['general-discussion']}
+${Object.entries(totals).map(([topic, count]) => `- ${getTopicLabel(topic)}: ${count}`).join('\n')}
 
 PER-CHANNEL BREAKDOWN:
 ${Object.entries(summary).map(([channel, topics]) => {
@@ -599,7 +1200,7 @@ ${Object.entries(summary).map(([channel, topics]) => {
   }
 
   try {
-    const aiResponse = await generateWithAnthropic(`${dataContext}${conversationContext}
+    const aiResponse = await generateWithModel('analytics', `${dataContext}${conversationContext}
 CURRENT USER QUESTION: ${question}
 
 Provide a helpful answer based on the data above. Use the conversation history to understand context and follow-up questions.
@@ -637,27 +1238,51 @@ Be specific and data-driven. Don't be vague - cite actual numbers and thread nam
   }
 }
 
+/**
+ * Note for report footers when some labels in the report's period and channels came from
+ * the offline fallback classifier
+ */
+function formatFallbackNote(filter: AnalyticsFilter = {}): string {
+  const fallbackCount = getFallbackLabelCount(filter);
+  if (fallbackCount === 0) return '';
+  return `\n⚠️ ${fallbackCount} of ${getMessageCount(filter)} labels (${describeAnalyticsFilter(filter)}) are from the offline keyword classifier and will be re-classified when the LLM is available`;
+}
+
+/**
+ * Format "<emoji> <label>: *<count>*" lines for the non-zero topics, largest first
+ */
+function formatTopicCountLines(counts: Record<Topic, number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([topic, count]) => `${getTopicEmoji(topic)} ${getTopicLabel(topic)}: *${count}*`)
+    .join('\n');
+}
+
 /**
  * Format a Top 5 help topics report for Slack
  */
-export function formatTopHelpTopicsForSlack(): { text: string; blocks: object[] } {
-  const topTopics = getTopHelpTopics(5);
-  const totalHelp = messages.filter(m => m.channel === 'help').length;
+export function formatTopHelpTopicsForSlack(
+  guildId: string = process.env.DISCORD_GUILD_ID || '',
+  filter: AnalyticsFilter = {}
+): { text: string; blocks: object[] } {
+  const topTopics = getTopHelpTopics(5, filter);
+  const totalHelp = getStore().countMessages({ ...filter, channel: 'help' });
   
   if (topTopics.length === 0) {
     return {
-      text: 'No help topics tracked yet',
+      text: `No help topics tracked yet (${describeAnalyticsFilter(filter)})`,
       blocks: [
         {
           type: 'section',
-          text: { type: 'mrkdwn', text: "📊 *Top Help Topics*\n\n_No help requests tracked yet. Data will appear as people ask questions in #help._" },
+          text: { type: 'mrkdwn', text: `📊 *Top Help Topics*\n\n_No help requests tracked yet (${describeAnalyticsFilter(filter)}). Data will appear as people ask questions in #help._` },
         },
       ],
     };
   }
   
   const topicList = topTopics
-    .map((t, i) => `${i + 1}. *${t.topic}* — ${t.count} request${t.count > 1 ? 's' : ''}`)
+    .map((t, i) => `${i + 1}. *${t.topic}* — ${t.count} request${t.count > 1 ? 's' : ''}${formatHelpTopicExamples(t.examples, guildId)}`)
     .join('\n');
   
   return {
@@ -674,7 +1299,7 @@ export function formatTopHelpTopicsForSlack(): { text: string; blocks: object[]
       {
         type: 'context',
         elements: [
-          { type: 'mrkdwn', text: `_Data from #help channel since bot started_` },
+          { type: 'mrkdwn', text: `_Data from #help channel · ${describeAnalyticsFilter(filter)}_` },
         ],
       },
     ],
@@ -682,11 +1307,13 @@ export function formatTopHelpTopicsForSlack(): { text: string; blocks: object[]
 }
 
 /**
- * Format daily summary for Slack reporting
+ * Format daily summary for Slack reporting (the last 24 hours unless a filter is given)
  */
-export function formatDailySummaryForSlack(): { text: string; blocks: object[] } {
-  const summary = getTopicSummary();
-  const totals = getTotalCounts();
+export function formatDailySummaryForSlack(
+  filter: AnalyticsFilter = { since: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+): { text: string; blocks: object[] } {
+  const summary = getTopicSummary(filter);
+  const totals = getTotalCounts(filter);
   const totalMessages = Object.values(totals).reduce((a, b) => a + b, 0);
   
   if (totalMessages === 0) {
@@ -705,29 +1332,7 @@ export function formatDailySummaryForSlack(): { text: string; blocks: object[] }
     };
   }
 
-  const topicEmojis: Record<Topic, string> = {
-    'support-request': '🆘',
-    'feature-request': '💡',
-    'bug-report': '🐛',
-    'general-discussion': '💬',
-    'praise': '🎉',
-    'question': '❓',
-  };
-
-  const topicLabels: Record<Topic, string> = {
-    'support-request': 'Support Requests',
-    'feature-request': 'Feature Requests',
-    'bug-report': 'Bug Reports',
-    'general-discussion': 'General Discussion',
-    'praise': 'Praise',
-    'question': 'Questions',
-  };
-
-  const totalLines = (Object.keys(totals) as Topic[])
-    .filter(topic => totals[topic] > 0)
-    .sort((a, b) => totals[b] - totals[a])
-    .map(topic => `${topicEmojis[topic]} ${topicLabels[topic]}: *${totals[topic]}*`)
-    .join('\n');
+  const totalLines = formatTopicCountLines(totals);
 
   const blocks: object[] = [
     {
@@ -753,13 +1358,12 @@ export function formatDailySummaryForSlack(): { text: string; blocks: object[] }
       text: { type: 'mrkdwn', text: '*Per-Channel Breakdown:*' },
     });
 
-    for (const channel of channels) {
-      const channelTopics = summary[channel];
+    for (const [channel, channelTopics] of Object.entries(summary)) {
       const channelTotal = Object.values(channelTopics).reduce((a, b) => a + b, 0);
-      const channelLines = (Object.keys(channelTopics) as Topic[])
-        .filter(topic => channelTopics[topic] > 0)
-        .sort((a, b) => channelTopics[b] - channelTopics[a])
-        .map(topic => `${topicEmojis[topic]} ${channelTopics[topic]}`)
+      const channelLines = Object.entries(channelTopics)
+        .filter(([, count]) => count > 0)
+        .sort(([, a], [, b]) => b - a)
+        .map(([topic, count]) => `${getTopicEmoji(topic)} ${count}`)
         .join(' | ');
 
       blocks.push({
@@ -772,7 +1376,7 @@ export function formatDailySummaryForSlack(): { text: string; blocks: object[] }
   }
 
   // Add top help topics if available
-  const topHelp = getTopHelpTopics(3);
+  const topHelp = getTopHelpTopics(3, filter);
   if (topHelp.length > 0) {
     blocks.push({ type: 'divider' });
     blocks.push({
@@ -789,7 +1393,7 @@ export function formatDailySummaryForSlack(): { text: string; blocks: object[] }
     {
       type: 'context',
       elements: [
-        { type: 'mrkdwn', text: `_Generated at ${new Date().toISOString()}_` },
+        { type: 'mrkdwn', text: `_${describeAnalyticsFilter(filter)} · Generated at ${new Date().toISOString()}_${formatFallbackNote(filter)}` },
       ],
     }
   );
@@ -803,11 +1407,14 @@ export function formatDailySummaryForSlack(): { text: string; blocks: object[] }
 /**
  * Format a combined summary + top topics report for Slack (default response)
  */
-export function formatCombinedReportForSlack(): { text: string; blocks: object[] } {
-  const totals = getTotalCounts();
+export function formatCombinedReportForSlack(
+  guildId: string = process.env.DISCORD_GUILD_ID || '',
+  filter: AnalyticsFilter = {}
+): { text: string; blocks: object[] } {
+  const totals = getTotalCounts(filter);
   const totalMessages = Object.values(totals).reduce((a, b) => a + b, 0);
-  const topTopics = getTopHelpTopics(5);
-  const helpMessages = messages.filter(m => m.channel === 'help').length;
+  const topTopics = getTopHelpTopics(5, filter);
+  const helpMessages = getStore().countMessages({ ...filter, channel: 'help' });
   
   if (totalMessages === 0) {
     return {
@@ -815,40 +1422,23 @@ export function formatCombinedReportForSlack(): { text: string; blocks: object[]
       blocks: [
         {
           type: 'section',
-          text: { type: 'mrkdwn', text: "📊 *Analytics Report*\n\n_No data tracked yet. Messages will be analyzed as they come in._" },
+          text: {
+            type: 'mrkdwn',
+            text: isUnfiltered(filter)
+              ? "📊 *Analytics Report*\n\n_No data tracked yet. Messages will be analyzed as they come in._"
+              : `📊 *Analytics Report*\n\n_No messages tracked (${describeAnalyticsFilter(filter)})._`,
+          },
         },
       ],
     };
   }
 
-  const topicEmojis: Record<Topic, string> = {
-    'support-request': '🆘',
-    'feature-request': '💡',
-    'bug-report': '🐛',
-    'general-discussion': '💬',
-    'praise': '🎉',
-    'question': '❓',
-  };
-
-  const topicLabels: Record<Topic, string> = {
-    'support-request': 'Support Requests',
-    'feature-request': 'Feature Requests',
-    'bug-report': 'Bug Reports',
-    'general-discussion': 'General Discussion',
-    'praise': 'Praise',
-    'question': 'Questions',
-  };
-
   // Summary section
-  const summaryLines = (Object.keys(totals) as Topic[])
-    .filter(topic => totals[topic] > 0)
-    .sort((a, b) => totals[b] - totals[a])
-    .map(topic => `${topicEmojis[topic]} ${topicLabels[topic]}: *${totals[topic]}*`)
-    .join('\n');
+  const summaryLines = formatTopicCountLines(totals);
 
   // Top help topics section
   const topicList = topTopics.length > 0
-    ? topTopics.map((t, i) => `${i + 1}. *${t.topic}* — ${t.count} request${t.count > 1 ? 's' : ''}`).join('\n')
+    ? topTopics.map((t, i) => `${i + 1}. *${t.topic}* — ${t.count} request${t.count > 1 ? 's' : ''}${formatHelpTopicExamples(t.examples.slice(0, 2), guildId)}`).join('\n')
     : '_No help topics tracked yet_';
 
   const blocks: object[] = [
@@ -868,7 +1458,7 @@ export function formatCombinedReportForSlack(): { text: string; blocks: object[]
     {
       type: 'context',
       elements: [
-        { type: 'mrkdwn', text: `_Ask me anything about the community data!_` },
+        { type: 'mrkdwn', text: `_${describeAnalyticsFilter(filter)} · Ask me anything about the community data!_${formatFallbackNote(filter)}` },
       ],
     },
   ];
@@ -880,16 +1470,145 @@ export function formatCombinedReportForSlack(): { text: string; blocks: object[]
 }
 
 /**
- * Get messages from the last N days that have messageId for reaction fetching
+ * Format a classification review card for Slack. Pending labels get one button per topic
+ * (the current label confirms it, any other corrects it); reviewed labels show the outcome.
+ */
+export function formatClassificationReviewForSlack(msg: TrackedMessage, guildId: string): { text: string; blocks: object[] } {
+  const messageId = msg.messageId!;
+  const discordUrl = `https://discord.com/channels/${guildId}/${msg.threadId || msg.channelId}/${messageId}`;
+  const content = msg.content.length > 500 ? msg.content.substring(0, 500) + '...' : msg.content;
+  const confidence = msg.confidence !== undefined ? `${Math.round(msg.confidence * 100)}%` : 'unknown';
+
+  const blocks: object[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🏷️ *Label review* | #${msg.channel} | ${msg.author}\n<${discordUrl}|View on Discord>\n\n>${content.replace(/\n/g, '\n>')}`,
+      },
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Classified as *${msg.originalTopic ?? msg.topic}* (${confidence} confident)${msg.rationale ? ` — _${msg.rationale}_` : ''}`,
+        },
+      ],
+    },
+  ];
+
+  if (msg.reviewStatus === 'pending') {
+    blocks.push({
+      type: 'actions',
+      elements: getTopicsForChannel(msg.channel).map(topic => ({
+        type: 'button',
+        text: { type: 'plain_text', text: `${topic === msg.topic ? '✅' : getTopicEmoji(topic)} ${getTopicLabel(topic)}`, emoji: true },
+        ...(topic === msg.topic ? { style: 'primary' } : {}),
+        action_id: `review_topic_${topic}_${messageId}`,
+        value: `${messageId}:${topic}`,
+      })),
+    });
+  } else {
+    const outcome = msg.reviewStatus === 'corrected'
+      ? `✏️ Corrected to *${msg.topic}*`
+      : `✅ Confirmed as *${msg.topic}*`;
+    blocks.push({
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `${outcome}${msg.reviewedBy ? ` by ${msg.reviewedBy}` : ''}` },
+      ],
+    });
+  }
+
+  return {
+    text: `Label review: "${msg.topic}" in #${msg.channel} (${confidence} confident)`,
+    blocks,
+  };
+}
+
+/**
+ * Get messages from the last N days that have a Discord message ID
  */
 export function getMessagesForRollup(days: number = 7): TrackedMessage[] {
   const cutoff = new Date();
   cutoff.setDate(cutoff.getDate() - days);
   
-  return messages.filter(m => {
-    const msgDate = new Date(m.timestamp);
-    return msgDate >= cutoff && m.messageId && m.channelId;
-  });
+  return getStore().findMessages({ since: cutoff, withMessageId: true });
+}
+
+/**
+ * Set how many reactions of one emoji a tracked message has (from reaction events).
+ * Returns false if the message isn't tracked.
+ */
+export function setMessageReactionCount(messageId: string, emoji: string, count: number): boolean {
+  const msg = getStore().getMessageById(messageId);
+  if (!msg) return false;
+
+  const reactions = { ...msg.reactions };
+  if (count > 0) {
+    reactions[emoji] = count;
+  } else {
+    delete reactions[emoji];
+  }
+  msg.reactions = reactions;
+  getStore().updateMessage(msg);
+  return true;
+}
+
+/**
+ * Replace all of a tracked message's reaction counts (after fetching the message, or
+ * when Discord removes every reaction)
+ */
+export function setMessageReactions(messageId: string, reactions: Record<string, number>): boolean {
+  const msg = getStore().getMessageById(messageId);
+  if (!msg) return false;
+
+  msg.reactions = reactions;
+  getStore().updateMessage(msg);
+  return true;
+}
+
+/**
+ * Messages in the rollup window whose reactions were never counted (recorded before
+ * reaction events were tracked)
+ */
+export function getMessagesMissingReactions(days: number = 7): TrackedMessage[] {
+  return getMessagesForRollup(days).filter(m => !m.reactions);
+}
+
+function getReactionTotal(msg: TrackedMessage): number {
+  return Object.values(msg.reactions ?? {}).reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Messages from the last N days with at least minReactions reactions, most reacted first
+ */
+export function getTopReactedMessages(days: number = 7, minReactions: number = 3): Array<{ message: TrackedMessage; reactionCount: number }> {
+  return getMessagesForRollup(days)
+    .map(message => ({ message, reactionCount: getReactionTotal(message) }))
+    .filter(item => item.reactionCount >= minReactions)
+    .sort((a, b) => b.reactionCount - a.reactionCount);
+}
+
+/**
+ * Show a stored emoji key in Slack. Custom Discord emoji ("<:party_parrot:123>") become
+ * ":party_parrot:", which Slack renders when the workspace has an emoji by that name.
+ */
+function formatEmojiForSlack(emoji: string): string {
+  const custom = emoji.match(/^<a?:(\w+):\d+>$/);
+  return custom ? `:${custom[1]}:` : emoji;
+}
+
+/**
+ * A message's most used emoji ("👍 5  🎉 2")
+ */
+function formatReactionSummary(reactions: Record<string, number>, limit: number = 4): string {
+  return Object.entries(reactions)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([emoji, count]) => `${formatEmojiForSlack(emoji)} ${count}`)
+    .join('  ');
 }
 
 /**
@@ -925,9 +1644,19 @@ export function formatWeeklyRollupForSlack(
     const channelForLink = m.threadId || m.channelId;
     const discordUrl = `https://discord.com/channels/${guildId}/${channelForLink}/${m.messageId}`;
     
-    return `${i + 1}. *${item.reactionCount} reactions* | #${m.channel} | _${m.topic}_\n     <${discordUrl}|"${truncatedContent.replace(/\n/g, ' ')}">`;
+    const emoji = m.reactions ? ` | ${formatReactionSummary(m.reactions)}` : '';
+    return `${i + 1}. *${item.reactionCount} reactions*${emoji} | #${m.channel} | _${m.topic}_\n     <${discordUrl}|"${truncatedContent.replace(/\n/g, ' ')}">`;
   });
 
+  // Emoji used most across the week's popular messages
+  const emojiTotals: Record<string, number> = {};
+  for (const { message } of rankedMessages) {
+    for (const [emoji, count] of Object.entries(message.reactions ?? {})) {
+      emojiTotals[emoji] = (emojiTotals[emoji] ?? 0) + count;
+    }
+  }
+  const topEmoji = formatReactionSummary(emojiTotals, 8);
+
   const blocks: object[] = [
     {
       type: 'header',
@@ -936,7 +1665,7 @@ export function formatWeeklyRollupForSlack(
     {
       type: 'context',
       elements: [
-        { type: 'mrkdwn', text: `_Top ${rankedMessages.length} messages with 3+ reactions from the last 7 days_` },
+        { type: 'mrkdwn', text: `_Top ${rankedMessages.length} messages with 3+ reactions from the last 7 days_${topEmoji ? ` · Top emoji: ${topEmoji}` : ''}` },
       ],
     },
     { type: 'divider' },
@@ -970,6 +1699,6 @@ export function formatWeeklyRollupForSlack(
  * Reset all analytics data
  */
 export function resetAnalytics(): void {
-  messages.length = 0;
+  getStore().clearMessages();
   topicCounts.clear();
 }
@@ -0,0 +1,173 @@
+import type { DeliveryMode } from "./channels";
+import { getStore } from "./storage";
+
+export type ApprovalKind = 'intro' | 'follow-up' | 'moderation';
+
+// A welcome response (or a message held as possible spam) waiting for a human decision in Slack.
+// Only plain IDs are stored so the record can be rehydrated after a restart.
+export interface PendingApproval {
+  kind: ApprovalKind;
+  messageId: string; // Discord message ID of the intro (or of the member's reply, for follow-ups)
+  guildId: string;
+  channelId: string; // For follow-ups this is the welcome thread
+  channelName: string;
+  authorId: string;
+  authorUsername: string;
+  authorTag: string;
+  introContent: string; // The message being responded to
+  originalIntro?: string; // Follow-ups only: the intro that started the thread
+  threadContext?: string; // Follow-ups only: the welcome thread so far
+  screening?: { score: number; reasons: string[] }; // Moderation only: why the message was held
+  discordUrl: string;
+  suggestedResponse: string;
+  drafts: string[]; // Every AI draft generated so far, oldest first
+  aiDraft: string; // The AI draft the current response is based on (empty if none)
+  edited: boolean; // True once a reviewer has written or edited the response
+  deliveryMode: DeliveryMode; // Follow-ups always reply inside the welcome thread
+  slackTs?: string;
+  slackChannel?: string;
+  autoSendAt?: Date; // When the draft will be sent automatically if nobody acts
+  draftConfidence?: number; // Confidence score (0-1) when the channel auto-sends confident drafts
+  createdAt: Date;
+}
+
+// A welcome thread the bot started, watched for replies from the new member
+export interface WelcomeThread {
+  threadId: string;
+  guildId: string;
+  introMessageId: string;
+  authorId: string;
+  authorUsername: string;
+  introContent: string;
+  createdAt: Date;
+}
+
+// Stop watching welcome threads after this long
+const WELCOME_THREAD_WATCH_DAYS = 14;
+
+const pendingApprovals = new Map<string, PendingApproval>();
+const welcomeThreads = new Map<string, WelcomeThread>();
+
+/**
+ * Load pending approvals from the store
+ */
+export function loadPendingApprovals(): void {
+  try {
+    const data = getStore().loadApprovals();
+    if (data.pending.length === 0 && data.threads.length === 0) return;
+
+    for (const p of data.pending) {
+      pendingApprovals.set(p.messageId, {
+        ...p,
+        kind: p.kind ?? 'intro',
+        authorId: p.authorId ?? '',
+        drafts: p.drafts ?? (p.suggestedResponse ? [p.suggestedResponse] : []),
+        aiDraft: p.aiDraft ?? p.drafts?.at(-1) ?? '',
+        edited: p.edited ?? false,
+        deliveryMode: p.deliveryMode ?? 'thread',
+        autoSendAt: p.autoSendAt ? new Date(p.autoSendAt) : undefined,
+        createdAt: new Date(p.createdAt),
+      });
+    }
+    for (const t of data.threads) {
+      welcomeThreads.set(t.threadId, {
+        ...t,
+        createdAt: new Date(t.createdAt),
+      });
+    }
+    console.log(`   📬 Loaded ${pendingApprovals.size} pending approvals and ${welcomeThreads.size} welcome threads (${getStore().backend} storage)`);
+  } catch (error) {
+    console.error('Failed to load pending approvals:', error);
+  }
+}
+
+/**
+ * Save pending approvals (written immediately, approvals must not be lost)
+ */
+function saveApprovals(): void {
+  try {
+    const pending = Array.from(pendingApprovals.values());
+    const threads = Array.from(welcomeThreads.values());
+    getStore().saveApprovals(pending, threads);
+  } catch (error) {
+    console.error('Failed to save pending approvals:', error);
+  }
+}
+
+/**
+ * Get a pending approval by Discord message ID
+ */
+export function getPendingApproval(messageId: string): PendingApproval | undefined {
+  return pendingApprovals.get(messageId);
+}
+
+/**
+ * Get all pending approvals
+ */
+export function getAllPendingApprovals(): PendingApproval[] {
+  return Array.from(pendingApprovals.values());
+}
+
+/**
+ * Get pending approvals whose auto-send time has passed
+ */
+export function getDueAutoSends(now: Date = new Date()): PendingApproval[] {
+  return Array.from(pendingApprovals.values()).filter(
+    p => p.autoSendAt && p.autoSendAt <= now && p.suggestedResponse
+  );
+}
+
+/**
+ * Create or replace a pending approval
+ */
+export function setPendingApproval(approval: PendingApproval): void {
+  pendingApprovals.set(approval.messageId, approval);
+  saveApprovals();
+}
+
+/**
+ * Update fields on an existing pending approval
+ */
+export function updatePendingApproval(messageId: string, changes: Partial<PendingApproval>): PendingApproval | undefined {
+  const existing = pendingApprovals.get(messageId);
+  if (!existing) return undefined;
+
+  const updated = { ...existing, ...changes };
+  pendingApprovals.set(messageId, updated);
+  saveApprovals();
+  return updated;
+}
+
+/**
+ * Remove a pending approval once it has been handled
+ */
+export function deletePendingApproval(messageId: string): void {
+  if (pendingApprovals.delete(messageId)) {
+    saveApprovals();
+  }
+}
+
+/**
+ * Start watching a welcome thread for replies from the new member
+ */
+export function watchWelcomeThread(thread: WelcomeThread): void {
+  welcomeThreads.set(thread.threadId, thread);
+  saveApprovals();
+}
+
+/**
+ * Get a watched welcome thread (expired threads are dropped)
+ */
+export function getWelcomeThread(threadId: string): WelcomeThread | undefined {
+  const thread = welcomeThreads.get(threadId);
+  if (!thread) return undefined;
+
+  const cutoff = new Date(Date.now() - WELCOME_THREAD_WATCH_DAYS * 24 * 60 * 60 * 1000);
+  if (thread.createdAt < cutoff) {
+    welcomeThreads.delete(threadId);
+    saveApprovals();
+    return undefined;
+  }
+
+  return thread;
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { advanceBackfillCursor, getBackfillCursor } from "./backfill-cursors";
+
+test('advanceBackfillCursor starts a cursor for a new channel', () => {
+  advanceBackfillCursor('new-channel', '1100000000000000000');
+  assert.equal(getBackfillCursor('new-channel'), '1100000000000000000');
+});
+
+test('advanceBackfillCursor only moves forward', () => {
+  advanceBackfillCursor('channel', '1200000000000000000');
+  advanceBackfillCursor('channel', '1199999999999999999');
+  assert.equal(getBackfillCursor('channel'), '1200000000000000000');
+
+  advanceBackfillCursor('channel', '1200000000000000001');
+  assert.equal(getBackfillCursor('channel'), '1200000000000000001');
+});
+
+test('advanceBackfillCursor compares snowflakes as numbers, not strings', () => {
+  advanceBackfillCursor('mixed-length', '999999999999999999');
+  advanceBackfillCursor('mixed-length', '1000000000000000000');
+  assert.equal(getBackfillCursor('mixed-length'), '1000000000000000000');
+});
+
+test('cursors are kept per channel', () => {
+  advanceBackfillCursor('thread-a', '1300000000000000000');
+  advanceBackfillCursor('thread-b', '1250000000000000000');
+  assert.equal(getBackfillCursor('thread-a'), '1300000000000000000');
+  assert.equal(getBackfillCursor('thread-b'), '1250000000000000000');
+  assert.equal(getBackfillCursor('thread-c'), undefined);
+});
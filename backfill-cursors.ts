@@ -0,0 +1,94 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+
+// The newest Discord message seen in a channel or forum thread. On startup the backfill
+// fetches only messages after it, so downtime leaves no gap in the analytics.
+export interface BackfillCursor {
+  lastMessageId: string;
+  updatedAt: Date;
+}
+
+// Persistence file path
+const CURSORS_FILE = path.join(process.cwd(), 'backfill-cursors-data.json');
+
+const CURSORS_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ cursors: data.cursors || {} })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Keyed by Discord channel ID (thread ID for forum threads). A forum's own cursor marks when its
+// last complete backfill pass started, so threads active after that are walked next time.
+const cursors = new Map<string, BackfillCursor>();
+
+/**
+ * Load backfill cursors from disk
+ */
+export function loadBackfillCursors(): void {
+  try {
+    const data = readVersionedJsonFile(CURSORS_FILE, CURSORS_SCHEMA);
+    if (!data) return;
+
+    for (const [channelId, cursor] of Object.entries(data.cursors || {})) {
+      const c = cursor as any;
+      cursors.set(channelId, { lastMessageId: c.lastMessageId, updatedAt: new Date(c.updatedAt) });
+    }
+    console.log(`   🧭 Loaded ${cursors.size} backfill cursors from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(CURSORS_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save backfill cursors to disk
+ */
+function saveBackfillCursors(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(CURSORS_FILE, CURSORS_SCHEMA, { cursors: Object.fromEntries(cursors) });
+  } catch (error) {
+    console.error('Failed to save backfill cursors:', error);
+  }
+}
+
+// Debounce saves, every live message moves a cursor
+let saveTimeout: NodeJS.Timeout | null = null;
+function debouncedSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    saveBackfillCursors();
+  }, 2000);
+}
+
+/**
+ * Write a pending debounced save now (on shutdown)
+ */
+export function flushBackfillCursors(): void {
+  if (!saveTimeout) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = null;
+  saveBackfillCursors();
+}
+
+/**
+ * Get the newest message ID seen in a channel or thread
+ */
+export function getBackfillCursor(channelId: string): string | undefined {
+  return cursors.get(channelId)?.lastMessageId;
+}
+
+/**
+ * Move a channel's cursor forward (IDs older than the current cursor are ignored)
+ */
+export function advanceBackfillCursor(channelId: string, messageId: string): void {
+  const current = cursors.get(channelId);
+  if (current && BigInt(current.lastMessageId) >= BigInt(messageId)) return;
+
+  cursors.set(channelId, { lastMessageId: messageId, updatedAt: new Date() });
+  debouncedSave();
+}
@@ -1,10 +1,44 @@
 export type ResponseType = "welcome" | "analytics-only";
 
+// How welcome responses are approved before they are posted
+export type ApprovalPolicy =
+  | { mode: "always-review" }
+  | { mode: "auto-send-after"; hours: number } // Send the AI draft if nobody acts within N hours
+  | { mode: "auto-send-when-confident"; minConfidence: number }; // Send right away when the draft scores >= minConfidence (0-1)
+
+// Where an approved welcome response is posted
+export type DeliveryMode = "thread" | "reply" | "dm";
+
+export const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  thread: "🧵 Thread",
+  reply: "↩️ Inline reply",
+  dm: "✉️ Direct message",
+};
+
 export interface ChannelConfig {
   name: string;
   channelId: string;
   responseType: ResponseType;
   enabled: boolean;
+  approvalPolicy?: ApprovalPolicy; // Only used for welcome channels, defaults to always-review
+  deliveryMode?: DeliveryMode; // Only used for welcome channels, defaults to thread
+}
+
+// Parse a policy string like "always-review", "auto-send-after:12" or "auto-send-when-confident:0.9"
+export function parseApprovalPolicy(value: string | undefined): ApprovalPolicy {
+  const [mode, arg] = (value || "").trim().split(":");
+  const num = Number(arg);
+
+  if (mode === "auto-send-after" && num > 0) {
+    return { mode, hours: num };
+  }
+  if (mode === "auto-send-when-confident" && num > 0 && num <= 1) {
+    return { mode, minConfidence: num };
+  }
+  if (value && mode !== "always-review") {
+    console.warn(`Invalid approval policy "${value}", defaulting to always-review`);
+  }
+  return { mode: "always-review" };
 }
 
 // Function to get channels - called after env is loaded
@@ -15,6 +49,8 @@ export function getChannels(): ChannelConfig[] {
       channelId: process.env.DISCORD_CHANNEL_INTROS || "",
       responseType: "welcome",
       enabled: true,
+      approvalPolicy: parseApprovalPolicy(process.env.INTROS_APPROVAL_POLICY),
+      deliveryMode: "thread",
     },
     {
       name: "random",
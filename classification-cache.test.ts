@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCacheVersion, getCachedValue, setCachedValue } from "./classification-cache";
+
+const MODEL = 'anthropic:test-model';
+const SINGLE_PROMPT = 'Classify this message: {content}';
+const BATCH_PROMPT = 'Classify these messages: {messages}';
+
+test('single and batch lookups alternate without invalidating each other', () => {
+  const single = getCacheVersion('topic', SINGLE_PROMPT, MODEL);
+  setCachedValue('topic', single, 'how do I install?', 'support-request');
+  const batch = getCacheVersion('topic-batch', BATCH_PROMPT, MODEL);
+  setCachedValue('topic-batch', batch, 'how do I install?', 'question');
+  const batchHelp = getCacheVersion('help-topic-batch', BATCH_PROMPT, MODEL);
+  setCachedValue('help-topic-batch', batchHelp, 'how do I install?', 'installation');
+
+  for (let round = 0; round < 3; round++) {
+    assert.equal(getCachedValue('topic', getCacheVersion('topic', SINGLE_PROMPT, MODEL), 'how do I install?'), 'support-request');
+    assert.equal(getCachedValue('topic-batch', getCacheVersion('topic-batch', BATCH_PROMPT, MODEL), 'how do I install?'), 'question');
+    assert.equal(getCacheVersion('help-topic', 'Extract the help topic: {content}', MODEL).length, 16);
+    assert.equal(getCachedValue('help-topic-batch', getCacheVersion('help-topic-batch', BATCH_PROMPT, MODEL), 'how do I install?'), 'installation');
+  }
+});
+
+test('a new prompt for a kind drops that kind\'s old entries', () => {
+  const before = getCacheVersion('help-topic', 'Old help prompt: {content}', MODEL);
+  setCachedValue('help-topic', before, 'ssh hangs', 'ssh issues');
+
+  const after = getCacheVersion('help-topic', 'New help prompt: {content}', MODEL);
+  assert.notEqual(after, before);
+  assert.equal(getCachedValue('help-topic', after, 'ssh hangs'), undefined);
+  assert.equal(getCachedValue('help-topic', getCacheVersion('help-topic', 'Old help prompt: {content}', MODEL), 'ssh hangs'), undefined);
+});
+
+test('lookups normalize whitespace and case', () => {
+  const version = getCacheVersion('topic', SINGLE_PROMPT, MODEL);
+  setCachedValue('topic', version, 'Workspace   keeps crashing', 'bug-report');
+  assert.equal(getCachedValue('topic', version, '  workspace keeps CRASHING '), 'bug-report');
+});
@@ -0,0 +1,181 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+import { createHash } from "crypto";
+
+// What a cached value is: a topic label or an extracted help topic, from the single-message
+// prompts or the batch prompt (each has its own version, so they're kept apart)
+export type CacheKind = 'topic' | 'help-topic' | 'topic-batch' | 'help-topic-batch';
+
+interface CacheEntry {
+  value: string;
+  version: string; // Hash of the prompt + model that produced the value
+  createdAt: number;
+}
+
+// Persistence file path
+const CACHE_FILE = path.join(process.cwd(), 'classification-cache.json');
+
+const CACHE_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ entries: data.entries || {} })],
+  backups: 1,
+  pretty: false,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Oldest entries are evicted beyond this size
+const MAX_CACHE_ENTRIES = 20000;
+
+const cache = new Map<string, CacheEntry>();
+const currentVersions = new Map<CacheKind, string>();
+const stats = { hits: 0, misses: 0 };
+
+// Off for runs that must not read or write the shared cache (e.g. the classification eval)
+let enabled = true;
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Normalize content so trivially different copies share a cache entry
+ */
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function cacheKey(kind: CacheKind, version: string, content: string): string {
+  return `${kind}:${version}:${hash(normalizeContent(content))}`;
+}
+
+/**
+ * Load the cache from disk
+ */
+export function loadClassificationCache(): void {
+  try {
+    const data = readVersionedJsonFile(CACHE_FILE, CACHE_SCHEMA);
+    if (!data) return;
+
+    for (const [key, entry] of Object.entries(data.entries || {})) {
+      cache.set(key, entry as CacheEntry);
+    }
+    console.log(`   🗃️ Loaded ${cache.size} cached classifications from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(CACHE_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save the cache to disk
+ */
+function saveCache(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(CACHE_FILE, CACHE_SCHEMA, { entries: Object.fromEntries(cache) });
+  } catch (error) {
+    console.error('Failed to save classification cache:', error);
+  }
+}
+
+// Debounce saves to avoid writing too frequently (backfills write thousands of entries)
+let saveTimeout: NodeJS.Timeout | null = null;
+function debouncedSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    saveCache();
+  }, 5000);
+}
+
+/**
+ * Write a pending debounced save now (on shutdown)
+ */
+export function flushClassificationCache(): void {
+  if (!saveTimeout) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = null;
+  saveCache();
+}
+
+/**
+ * Get the cache version for a prompt template + model. When it changes, entries
+ * produced by the old prompt or model are dropped.
+ */
+export function getCacheVersion(kind: CacheKind, promptTemplate: string, model: string): string {
+  const version = hash(`${promptTemplate}\n${model}`).substring(0, 16);
+
+  if (currentVersions.get(kind) !== version) {
+    currentVersions.set(kind, version);
+
+    let removed = 0;
+    for (const [key, entry] of cache) {
+      if (key.startsWith(`${kind}:`) && entry.version !== version) {
+        cache.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`   🗃️ Prompt or model changed, invalidated ${removed} cached ${kind} entries`);
+      debouncedSave();
+    }
+  }
+
+  return version;
+}
+
+/**
+ * Turn the cache off for this process: lookups miss and nothing is stored or saved
+ */
+export function disableClassificationCache(): void {
+  enabled = false;
+  if (saveTimeout) clearTimeout(saveTimeout);
+}
+
+/**
+ * Look up a cached value (counts towards hit/miss stats)
+ */
+export function getCachedValue(kind: CacheKind, version: string, content: string): string | undefined {
+  if (!enabled) return undefined;
+
+  const entry = cache.get(cacheKey(kind, version, content));
+  if (entry) {
+    stats.hits++;
+    return entry.value;
+  }
+  stats.misses++;
+  return undefined;
+}
+
+/**
+ * Store a value produced by the model
+ */
+export function setCachedValue(kind: CacheKind, version: string, content: string, value: string): void {
+  if (!enabled) return;
+
+  cache.set(cacheKey(kind, version, content), { value, version, createdAt: Date.now() });
+
+  // Maps iterate in insertion order, so the first keys are the oldest
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+
+  debouncedSave();
+}
+
+/**
+ * Get hit/miss stats since startup
+ */
+export function getClassificationCacheStats(): { hits: number; misses: number; hitRate: number; entries: number } {
+  const total = stats.hits + stats.misses;
+  return {
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: total > 0 ? stats.hits / total : 0,
+    entries: cache.size,
+  };
+}
@@ -0,0 +1,349 @@
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+import * as fs from "fs";
+import * as path from "path";
+import { classifyMessage, extractHelpTopic, type TrackedMessage } from "./analytics";
+import { disableClassificationCache } from "./classification-cache";
+import { classifyWithRules } from "./keyword-classifier";
+import { setStubResponder } from "./llm";
+import { parseModelSpec } from "./models";
+import { getTopics, migrateTopic, type Topic } from "./taxonomy";
+
+// Classification eval: runs classifyMessage and extractHelpTopic over a hand-labeled JSONL set
+// and reports accuracy, per-topic precision/recall and a confusion matrix.
+//
+//   npm run eval -- seed [--count 100] [--data analytics-data.json] [--out classification-eval.jsonl]
+//   npm run eval -- run --set classification-eval.jsonl --a ollama:llama3.1:8b [--a-prompt prompt.txt]
+//                       [--b ollama:qwen2.5:7b] [--b-prompt new-prompt.txt] [--help-model stub]
+//
+// Use "stub" as the model to run fully offline: it answers with the keyword classifier.
+// Prompt files replace the single-message classifier prompt (see CLASSIFICATION_PROMPT_FILE).
+
+// One hand-labeled message
+interface EvalItem {
+  content: string;
+  channel?: string; // Limits the allowed topics, like in production
+  topic: Topic;
+  helpTopic?: string; // Only scored when present
+}
+
+// A model + prompt combination to evaluate
+interface EvalVariant {
+  name: string;
+  model: string; // Model spec, e.g. "ollama:llama3.1:8b"
+  helpModel: string;
+  promptFile?: string;
+}
+
+interface EvalPrediction {
+  item: EvalItem;
+  topic: Topic;
+  fallback: boolean; // The model failed and the keyword classifier answered
+  helpTopic?: string;
+}
+
+interface TopicScore {
+  topic: Topic;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+interface EvalReport {
+  variant: EvalVariant;
+  predictions: EvalPrediction[];
+  accuracy: number;
+  scores: TopicScore[];
+  fallbacks: number;
+  helpTopicExact?: number; // Share of exact (normalized) help topic matches
+  helpTopicOverlap?: number; // Mean word overlap with the labeled help topic
+  durationMs: number;
+}
+
+const DEFAULT_SET_FILE = 'classification-eval.jsonl';
+
+/**
+ * Parse "--name value" flags after the mode
+ */
+function parseArgs(argv: string[]): { mode: string; flags: Record<string, string> } {
+  const [mode = 'run', ...rest] = argv;
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (!arg.startsWith('--')) continue;
+    const next = rest[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      flags[arg.slice(2)] = 'true';
+    } else {
+      flags[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return { mode, flags };
+}
+
+/**
+ * Load a labeled JSONL set, skipping lines without content or a known topic
+ */
+function loadEvalSet(file: string): EvalItem[] {
+  const items: EvalItem[] = [];
+  const lines = fs.readFileSync(file, 'utf-8').split('\n');
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line);
+      const topic = typeof entry.topic === 'string' ? migrateTopic(entry.topic) : undefined;
+      if (typeof entry.content !== 'string' || !entry.content.trim() || !topic) {
+        console.warn(`   ⚠️ Skipping line ${i + 1}: needs "content" and a "topic" from topics.json`);
+        return;
+      }
+      items.push({
+        content: entry.content,
+        channel: typeof entry.channel === 'string' ? entry.channel : undefined,
+        topic,
+        helpTopic: typeof entry.helpTopic === 'string' && entry.helpTopic.trim() ? entry.helpTopic : undefined,
+      });
+    } catch {
+      console.warn(`   ⚠️ Skipping line ${i + 1}: not valid JSON`);
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Write a sample of stored messages as a JSONL set to hand-label.
+ * Labels already confirmed or corrected in the Slack review queue come first.
+ */
+function seedEvalSet(dataFile: string, outFile: string, count: number): void {
+  const data = JSON.parse(fs.readFileSync(dataFile, 'utf-8'));
+  const messages: TrackedMessage[] = (data.messages || []).filter((m: TrackedMessage) => m.content?.trim());
+
+  const reviewed = messages.filter(m => m.reviewStatus === 'confirmed' || m.reviewStatus === 'corrected');
+  const rest = messages.filter(m => !reviewed.includes(m));
+  // Fisher-Yates shuffle so the sample spans channels and time
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j]!, rest[i]!];
+  }
+
+  const sample = [...reviewed, ...rest].slice(0, count);
+  const lines = sample.map(m => JSON.stringify({
+    content: m.content,
+    channel: m.channel,
+    topic: m.topic,
+    ...(m.channel === 'help' ? { helpTopic: m.helpTopic ?? '' } : {}),
+    reviewed: m.reviewStatus === 'confirmed' || m.reviewStatus === 'corrected',
+  }));
+  fs.writeFileSync(outFile, lines.join('\n') + '\n');
+
+  console.log(`📝 Wrote ${sample.length} messages (${Math.min(reviewed.length, count)} already human-reviewed) to ${outFile}`);
+  console.log('   The "topic" and "helpTopic" values are the bot\'s current labels - check and correct each one by hand before running the eval.');
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/["']/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function wordOverlap(a: string, b: string): number {
+  const wordsA = new Set(normalizeText(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeText(b).split(' ').filter(Boolean));
+  const union = new Set([...wordsA, ...wordsB]).size;
+  if (union === 0) return 1;
+  return [...wordsA].filter(w => wordsB.has(w)).length / union;
+}
+
+/**
+ * Run one variant over the set. Model and prompt are switched through the same env
+ * overrides production uses, so nothing here bypasses the real classification path.
+ */
+async function runVariant(variant: EvalVariant, items: EvalItem[]): Promise<EvalReport> {
+  process.env.LLM_CLASSIFICATION_MODEL = variant.model;
+  process.env.LLM_HELP_TOPIC_MODEL = variant.helpModel;
+  if (variant.promptFile) {
+    process.env.CLASSIFICATION_PROMPT_FILE = variant.promptFile;
+  } else {
+    delete process.env.CLASSIFICATION_PROMPT_FILE;
+  }
+
+  console.log(`\n▶️ ${variant.name}: classifying ${items.length} messages...`);
+  const start = Date.now();
+  const predictions: EvalPrediction[] = [];
+
+  for (const item of items) {
+    // The stub answers for whichever message is being classified
+    setStubResponder((task) => task === 'classification'
+      ? JSON.stringify({ topic: classifyWithRules(item.content, item.channel), confidence: 0.5, rationale: 'Stub (keyword rules)' })
+      : 'general help');
+
+    const classification = await classifyMessage(item.content, item.channel);
+    predictions.push({
+      item,
+      topic: classification.topic,
+      fallback: classification.source === 'rules',
+      helpTopic: item.helpTopic ? await extractHelpTopic(item.content) : undefined,
+    });
+  }
+
+  const topics = Array.from(new Set([...getTopics().map(t => t.id), ...items.map(i => i.topic)]));
+  const scores = topics.map(topic => {
+    const tp = predictions.filter(p => p.topic === topic && p.item.topic === topic).length;
+    const predicted = predictions.filter(p => p.topic === topic).length;
+    const support = predictions.filter(p => p.item.topic === topic).length;
+    const precision = predicted > 0 ? tp / predicted : 0;
+    const recall = support > 0 ? tp / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { topic, precision, recall, f1, support };
+  });
+
+  const withHelp = predictions.filter(p => p.item.helpTopic && p.helpTopic !== undefined);
+  return {
+    variant,
+    predictions,
+    accuracy: predictions.filter(p => p.topic === p.item.topic).length / (predictions.length || 1),
+    scores,
+    fallbacks: predictions.filter(p => p.fallback).length,
+    helpTopicExact: withHelp.length > 0
+      ? withHelp.filter(p => normalizeText(p.helpTopic!) === normalizeText(p.item.helpTopic!)).length / withHelp.length
+      : undefined,
+    helpTopicOverlap: withHelp.length > 0
+      ? withHelp.reduce((sum, p) => sum + wordOverlap(p.helpTopic!, p.item.helpTopic!), 0) / withHelp.length
+      : undefined,
+    durationMs: Date.now() - start,
+  };
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Print accuracy, per-topic scores and the confusion matrix for one variant
+ */
+function printReport(report: EvalReport): void {
+  const { variant, predictions } = report;
+  console.log(`\n📊 ${variant.name}`);
+  console.log(`   Accuracy: ${pct(report.accuracy)} (${predictions.length} messages, ${(report.durationMs / 1000).toFixed(1)}s)`);
+  if (report.fallbacks > 0) {
+    console.log(`   ⚠️ ${report.fallbacks} predictions came from the keyword fallback because the model failed`);
+  }
+  if (report.helpTopicExact !== undefined) {
+    console.log(`   Help topics: ${pct(report.helpTopicExact)} exact, ${pct(report.helpTopicOverlap ?? 0)} mean word overlap`);
+  }
+
+  console.log('');
+  console.log(`   ${'topic'.padEnd(24)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'f1'.padStart(10)}${'support'.padStart(10)}`);
+  for (const s of report.scores.filter(s => s.support > 0 || predictions.some(p => p.topic === s.topic))) {
+    console.log(`   ${s.topic.padEnd(24)}${pct(s.precision).padStart(10)}${pct(s.recall).padStart(10)}${pct(s.f1).padStart(10)}${String(s.support).padStart(10)}`);
+  }
+
+  // Rows are the labeled topic, columns the predicted topic (numbered to keep the table narrow)
+  const topics = report.scores
+    .map(s => s.topic)
+    .filter(t => predictions.some(p => p.topic === t || p.item.topic === t));
+  console.log('\n   Confusion matrix (rows: labeled, columns: predicted)');
+  console.log(`   ${''.padEnd(28)}${topics.map((_, i) => String(i + 1).padStart(5)).join('')}`);
+  topics.forEach((expected, i) => {
+    const cells = topics.map(predicted =>
+      String(predictions.filter(p => p.item.topic === expected && p.topic === predicted).length).padStart(5)
+    );
+    console.log(`   ${`${i + 1}. ${expected}`.padEnd(28)}${cells.join('')}`);
+  });
+}
+
+/**
+ * Print two variants side by side, with examples where only one of them was right
+ */
+function printComparison(a: EvalReport, b: EvalReport): void {
+  console.log(`\n⚖️ A: ${a.variant.name}  vs  B: ${b.variant.name}`);
+  console.log(`   Accuracy: A ${pct(a.accuracy)}  B ${pct(b.accuracy)}  (${b.accuracy >= a.accuracy ? '+' : ''}${((b.accuracy - a.accuracy) * 100).toFixed(1)} pts)`);
+  if (a.helpTopicExact !== undefined && b.helpTopicExact !== undefined) {
+    console.log(`   Help topics exact: A ${pct(a.helpTopicExact)}  B ${pct(b.helpTopicExact)}`);
+  }
+
+  console.log('');
+  console.log(`   ${'topic'.padEnd(24)}${'A prec'.padStart(9)}${'B prec'.padStart(9)}${'A rec'.padStart(9)}${'B rec'.padStart(9)}${'A f1'.padStart(9)}${'B f1'.padStart(9)}`);
+  a.scores.forEach((sa, i) => {
+    const sb = b.scores[i]!;
+    if (sa.support === 0 && !a.predictions.some(p => p.topic === sa.topic) && !b.predictions.some(p => p.topic === sb.topic)) return;
+    console.log(`   ${sa.topic.padEnd(24)}${pct(sa.precision).padStart(9)}${pct(sb.precision).padStart(9)}${pct(sa.recall).padStart(9)}${pct(sb.recall).padStart(9)}${pct(sa.f1).padStart(9)}${pct(sb.f1).padStart(9)}`);
+  });
+
+  const changed = a.predictions
+    .map((pa, i) => ({ pa, pb: b.predictions[i]! }))
+    .filter(({ pa, pb }) => (pa.topic === pa.item.topic) !== (pb.topic === pb.item.topic));
+  const fixed = changed.filter(({ pb }) => pb.topic === pb.item.topic);
+  console.log(`\n   B fixed ${fixed.length} and broke ${changed.length - fixed.length} of A's predictions`);
+
+  for (const { pa, pb } of changed.slice(0, 10)) {
+    const content = pa.item.content.replace(/\n/g, ' ');
+    console.log(`   ${pb.topic === pb.item.topic ? '✅' : '❌'} "${content.length > 80 ? content.substring(0, 80) + '...' : content}"`);
+    console.log(`      labeled ${pa.item.topic} | A: ${pa.topic} | B: ${pb.topic}`);
+  }
+}
+
+function buildVariant(flags: Record<string, string>, key: 'a' | 'b'): EvalVariant | undefined {
+  const model = flags[key];
+  if (!model) return undefined;
+
+  parseModelSpec(model); // Fail early on an unknown provider
+  const promptFile = flags[`${key}-prompt`];
+  return {
+    name: promptFile ? `${model} + ${path.basename(promptFile)}` : model,
+    model,
+    helpModel: flags['help-model'] || model,
+    promptFile,
+  };
+}
+
+async function main(): Promise<void> {
+  const { mode, flags } = parseArgs(process.argv.slice(2));
+
+  if (mode === 'seed') {
+    seedEvalSet(flags.data || 'analytics-data.json', flags.out || DEFAULT_SET_FILE, Number(flags.count) || 100);
+    return;
+  }
+
+  if (mode !== 'run') {
+    console.error(`Unknown mode "${mode}" (expected "seed" or "run")`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const variantA = buildVariant(flags, 'a');
+  const variantB = buildVariant(flags, 'b');
+  if (!variantA) {
+    console.error('Pass the model to evaluate with --a (e.g. --a ollama:llama3.1:8b, or --a stub to run offline)');
+    process.exitCode = 1;
+    return;
+  }
+
+  const setFile = flags.set || DEFAULT_SET_FILE;
+  const items = loadEvalSet(setFile);
+  if (items.length === 0) {
+    console.error(`No labeled messages in ${setFile}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`📂 Loaded ${items.length} labeled messages from ${setFile}`);
+
+  // Every variant must hit the model, and the eval must not touch the bot's cache file
+  disableClassificationCache();
+
+  const reportA = await runVariant(variantA, items);
+  printReport(reportA);
+
+  if (variantB) {
+    const reportB = await runVariant(variantB, items);
+    printReport(reportB);
+    printComparison(reportA, reportB);
+  }
+}
+
+main().catch(error => {
+  console.error('Eval failed:', error);
+  process.exitCode = 1;
+});
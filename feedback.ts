@@ -0,0 +1,198 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+
+// One welcome response that went out, with the AI draft it started from
+export interface DraftFeedback {
+  messageId: string;
+  introContent: string;
+  aiDraft: string; // Empty when the AI failed and the reviewer wrote it from scratch
+  finalText: string;
+  edited: boolean;
+  autoSent: boolean; // Sent by an approval policy without a human looking at it
+  sentAt: Date;
+}
+
+// Persistence file path
+const FEEDBACK_FILE = path.join(process.cwd(), 'draft-feedback-data.json');
+
+const FEEDBACK_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ feedback: data.feedback || [] })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Only the most recent examples are considered for few-shot prompting
+const RECENT_EXAMPLE_WINDOW = 200;
+
+let feedback: DraftFeedback[] = [];
+
+/**
+ * Load draft feedback from disk
+ */
+export function loadDraftFeedback(): void {
+  try {
+    const data = readVersionedJsonFile(FEEDBACK_FILE, FEEDBACK_SCHEMA);
+    if (!data) return;
+
+    feedback = (data.feedback || []).map((f: any) => ({
+      ...f,
+      sentAt: new Date(f.sentAt),
+    }));
+    console.log(`   ✏️ Loaded ${feedback.length} draft feedback records from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(FEEDBACK_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save draft feedback to disk
+ */
+function saveDraftFeedback(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(FEEDBACK_FILE, FEEDBACK_SCHEMA, { feedback });
+  } catch (error) {
+    console.error('Failed to save draft feedback:', error);
+  }
+}
+
+/**
+ * Record the (intro, AI draft, final sent text) triple for a sent response
+ */
+export function recordDraftFeedback(entry: Omit<DraftFeedback, 'edited' | 'sentAt'>): void {
+  feedback.push({
+    ...entry,
+    edited: normalizeText(entry.aiDraft) !== normalizeText(entry.finalText),
+    sentAt: new Date(),
+  });
+  saveDraftFeedback();
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+}
+
+/**
+ * Get the most relevant recent human-approved responses for an intro
+ */
+export function getFewShotExamples(introContent: string, limit: number = 3): DraftFeedback[] {
+  const introWords = new Set(tokenize(introContent).filter(w => w.length > 2));
+
+  return feedback
+    .filter(f => !f.autoSent && f.finalText)
+    .slice(-RECENT_EXAMPLE_WINDOW)
+    .map((f, i, recent) => {
+      // Word overlap with the new intro, nudged towards newer examples
+      const words = new Set(tokenize(f.introContent).filter(w => w.length > 2));
+      const overlap = [...words].filter(w => introWords.has(w)).length;
+      const union = new Set([...words, ...introWords]).size || 1;
+      const recency = (i + 1) / recent.length;
+      return { f, score: overlap / union + recency * 0.1 };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ f }) => f);
+}
+
+/**
+ * Format few-shot examples for COMMUNITY_RESPONSE_PROMPT
+ */
+export function formatFewShotExamples(examples: DraftFeedback[]): string {
+  if (examples.length === 0) return '';
+
+  const lines = examples.map(e => `Message: "${e.introContent}"\nReply we sent: "${e.finalText}"`);
+  return `EXAMPLES OF REPLIES OUR TEAM APPROVED (match this voice):\n${lines.join('\n\n')}\n`;
+}
+
+/**
+ * Get phrases from AI drafts that reviewers removed or rewrote, most common first
+ */
+function getMostEditedPhrases(limit: number): { phrase: string; count: number }[] {
+  const phraseCounts = new Map<string, number>();
+
+  for (const f of feedback) {
+    if (f.autoSent || !f.edited || !f.aiDraft) continue;
+
+    const finalText = ` ${tokenize(f.finalText).join(' ')} `;
+    const draftWords = tokenize(f.aiDraft);
+    const seen = new Set<string>();
+
+    // Count each 2-3 word phrase from the draft that didn't survive into the final text
+    for (const size of [3, 2]) {
+      for (let i = 0; i + size <= draftWords.length; i++) {
+        const phrase = draftWords.slice(i, i + size).join(' ');
+        if (seen.has(phrase) || finalText.includes(` ${phrase} `)) continue;
+        seen.add(phrase);
+        phraseCounts.set(phrase, (phraseCounts.get(phrase) ?? 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(phraseCounts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/**
+ * Format reviewer edit stats for Slack
+ */
+export function formatEditStatsForSlack(): { text: string; blocks: object[] } {
+  const reviewed = feedback.filter(f => !f.autoSent && f.aiDraft);
+  const edited = reviewed.filter(f => f.edited);
+
+  if (reviewed.length === 0) {
+    return {
+      text: 'No reviewed drafts yet',
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: "✏️ *Draft Edit Stats*\n\n_No AI drafts have been reviewed yet._" },
+        },
+      ],
+    };
+  }
+
+  const editRate = Math.round((edited.length / reviewed.length) * 100);
+  const phrases = getMostEditedPhrases(10);
+  const phraseList = phrases.length > 0
+    ? phrases.map((p, i) => `${i + 1}. "${p.phrase}" — edited out ${p.count} times`).join('\n')
+    : '_No repeated edits yet_';
+
+  return {
+    text: `Draft edit rate: ${editRate}% (${edited.length}/${reviewed.length})`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: '✏️ Draft Edit Stats', emoji: true },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*Edit rate:* ${editRate}% (${edited.length} of ${reviewed.length} AI drafts were changed before sending)` },
+      },
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*Most-Edited Phrases:*\n${phraseList}` },
+      },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: `_Recent approved replies are used as examples for new drafts_` },
+        ],
+      },
+    ],
+  };
+}
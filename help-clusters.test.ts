@@ -0,0 +1,43 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { clusterHelpTopics, getHelpClusterForTopic, getHelpClusters, renameHelpCluster } from "./help-clusters";
+
+const PHRASES = new Map([
+  ['vscode setup', 10],
+  ['VS Code setup', 4],
+  ['setting up visual studio code', 2],
+  ['ssh connection timeout', 6],
+  ['ssh timeout when connecting', 3],
+  ['workspace build fails', 5],
+]);
+
+describe('clusterHelpTopics', () => {
+  test('groups similar phrases and keeps different ones apart', () => {
+    clusterHelpTopics(PHRASES);
+
+    const vscode = getHelpClusterForTopic('vscode setup');
+    assert.ok(vscode);
+    assert.equal(getHelpClusterForTopic('VS Code setup')?.id, vscode.id);
+    assert.equal(getHelpClusterForTopic('ssh timeout when connecting')?.id, getHelpClusterForTopic('ssh connection timeout')?.id);
+    assert.notEqual(getHelpClusterForTopic('ssh connection timeout')?.id, vscode.id);
+    assert.notEqual(getHelpClusterForTopic('workspace build fails')?.id, vscode.id);
+  });
+
+  test('names a cluster after its most used phrase', () => {
+    clusterHelpTopics(PHRASES);
+    assert.equal(getHelpClusterForTopic('VS Code setup')?.name, 'vscode setup');
+  });
+
+  test('keeps cluster IDs and edited names when re-clustering', () => {
+    clusterHelpTopics(PHRASES);
+    const before = getHelpClusterForTopic('ssh connection timeout')!;
+    renameHelpCluster(before.id, 'SSH timeouts');
+
+    clusterHelpTopics(new Map([...PHRASES, ['ssh keeps timing out', 4], ['jetbrains gateway install', 3]]));
+
+    const after = getHelpClusterForTopic('ssh connection timeout')!;
+    assert.equal(after.id, before.id);
+    assert.equal(after.name, 'SSH timeouts');
+    assert.equal(new Set(getHelpClusters().map(c => c.id)).size, getHelpClusters().length);
+  });
+});
@@ -0,0 +1,428 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+
+// A group of similar help topics ("vs code setup", "vscode connection issue", ...)
+export interface HelpCluster {
+  id: string; // Stable across re-clustering and restarts
+  name: string; // Canonical name shown in reports
+  nameEdited: boolean; // Renamed by someone, so re-clustering keeps the name
+  members: string[]; // Normalized help topic phrases
+  createdAt: Date;
+}
+
+// Persistence file path
+const CLUSTERS_FILE = path.join(process.cwd(), 'help-clusters-data.json');
+
+const CLUSTERS_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ nextClusterId: data.nextClusterId, clusters: data.clusters || [] })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Minimum TF-IDF cosine similarity for a phrase to join a cluster
+const SIMILARITY_THRESHOLD = 0.45;
+
+// Re-cluster everything after this many new phrases have been assigned incrementally
+const RECLUSTER_AFTER_NEW_TOPICS = 20;
+
+// Words that say nothing about what the help request is about
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'with', 'in', 'on', 'for', 'of', 'and', 'or', 'my', 'how', 'using', 'use',
+  'issue', 'problem', 'error', 'help', 'question', 'not', 'working', 'doesnt', 'cant', 'cannot', 'unable',
+  'coder', // Nearly every request mentions the product
+]);
+
+// Multi-word spellings collapsed before tokenizing
+const PHRASE_SYNONYMS: [RegExp, string][] = [
+  [/\bvs ?code\b|\bvisual studio code\b/g, 'vscode'],
+  [/\bdev ?containers?\b/g, 'devcontainer'],
+  [/\blog ?in\b|\bsign ?in\b/g, 'auth'],
+  [/\bset ?up\b/g, 'setup'],
+];
+
+// Word variants mapped to one token
+const TOKEN_SYNONYMS: Record<string, string> = {
+  authentication: 'auth',
+  authenticate: 'auth',
+  login: 'auth',
+  oauth: 'auth',
+  installation: 'install',
+  installing: 'install',
+  installed: 'install',
+  configuration: 'config',
+  configure: 'config',
+  configuring: 'config',
+  settings: 'config',
+  connection: 'connect',
+  connecting: 'connect',
+  connectivity: 'connect',
+  crashes: 'crash',
+  crashing: 'crash',
+  crashed: 'crash',
+  github: 'git',
+  gitlab: 'git',
+};
+
+// What the model says when it couldn't find a topic ("no main topic extracted", "unknown issue")
+const NON_TOPIC_PATTERN = /^(no (main |clear |specific )?(topic|issue|question|response)\b|unknown\b|none$|n\/a$|general help$)/;
+
+let clusters: HelpCluster[] = [];
+let nextClusterId = 1;
+
+// Phrase -> how many messages used it (rebuilt from analytics on startup, not persisted)
+const phraseCounts = new Map<string, number>();
+const phraseToCluster = new Map<string, string>();
+let newSinceRecluster = 0;
+
+/**
+ * Normalize an extracted help topic so trivially different copies are one phrase
+ */
+export function normalizeHelpPhrase(topic: string): string {
+  const phrase = topic.toLowerCase().replace(/["'.]/g, '').replace(/\s+/g, ' ').trim();
+  return NON_TOPIC_PATTERN.test(phrase) ? 'general help' : phrase;
+}
+
+function tokenize(phrase: string): string[] {
+  let text = phrase;
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  const tokens = text
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(t => TOKEN_SYNONYMS[t] ?? t)
+    .map(t => (t.length > 4 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t))
+    .filter(t => !STOPWORDS.has(t));
+
+  // Phrases made only of stopwords ("general help") still need something to match on
+  return tokens.length > 0 ? tokens : [phrase.replace(/\s+/g, '-')];
+}
+
+type Vector = Map<string, number>;
+
+/**
+ * Build TF-IDF vectors for every known phrase
+ */
+function buildVectors(): Map<string, Vector> {
+  const tokenized = new Map<string, string[]>();
+  const documentFrequency = new Map<string, number>();
+  for (const phrase of phraseCounts.keys()) {
+    const tokens = tokenize(phrase);
+    tokenized.set(phrase, tokens);
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const total = phraseCounts.size;
+  const vectors = new Map<string, Vector>();
+  for (const [phrase, tokens] of tokenized) {
+    const vector: Vector = new Map();
+    for (const token of tokens) {
+      const idf = Math.log((total + 1) / ((documentFrequency.get(token) ?? 0) + 1)) + 1;
+      vector.set(token, (vector.get(token) ?? 0) + idf);
+    }
+    vectors.set(phrase, vector);
+  }
+  return vectors;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, token) => {
+    dot += value * (b.get(token) ?? 0);
+    normA += value * value;
+  });
+  b.forEach(value => {
+    normB += value * value;
+  });
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Centroid of a set of phrases, weighted by how often each was used
+ */
+function centroid(members: Iterable<string>, vectors: Map<string, Vector>): Vector {
+  const sum: Vector = new Map();
+  for (const phrase of members) {
+    const weight = phraseCounts.get(phrase) ?? 1;
+    vectors.get(phrase)?.forEach((value, token) => {
+      sum.set(token, (sum.get(token) ?? 0) + value * weight);
+    });
+  }
+  return sum;
+}
+
+/**
+ * The most used member phrase names a cluster unless someone renamed it
+ */
+function autoName(members: string[]): string {
+  return members.reduce((best, phrase) =>
+    (phraseCounts.get(phrase) ?? 0) > (phraseCounts.get(best) ?? 0) ? phrase : best
+  , members[0] ?? 'general help');
+}
+
+/**
+ * Load clusters from disk
+ */
+export function loadHelpClusters(): void {
+  try {
+    const data = readVersionedJsonFile(CLUSTERS_FILE, CLUSTERS_SCHEMA);
+    if (!data) return;
+
+    clusters = (data.clusters || []).map((c: any) => ({
+      ...c,
+      createdAt: new Date(c.createdAt),
+    }));
+    nextClusterId = data.nextClusterId || clusters.length + 1;
+    for (const cluster of clusters) {
+      for (const phrase of cluster.members) phraseToCluster.set(phrase, cluster.id);
+    }
+    console.log(`   🧩 Loaded ${clusters.length} help topic clusters from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(CLUSTERS_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save clusters to disk
+ */
+function saveHelpClusters(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(CLUSTERS_FILE, CLUSTERS_SCHEMA, { nextClusterId, clusters });
+  } catch (error) {
+    console.error('Failed to save help topic clusters:', error);
+  }
+}
+
+// Debounce saves to avoid writing too frequently (backfills add many topics at once)
+let saveTimeout: NodeJS.Timeout | null = null;
+function debouncedSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    saveHelpClusters();
+  }, 5000);
+}
+
+/**
+ * Write a pending debounced save now (on shutdown)
+ */
+export function flushHelpClusters(): void {
+  if (!saveTimeout) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = null;
+  saveHelpClusters();
+}
+
+/**
+ * Re-cluster all help topics from scratch. New clusters keep the ID (and edited name)
+ * of the old cluster they overlap most, so IDs stay stable as clusters grow and merge.
+ */
+export function clusterHelpTopics(counts: Map<string, number>): void {
+  phraseCounts.clear();
+  counts.forEach((count, phrase) => {
+    const normalized = normalizeHelpPhrase(phrase);
+    phraseCounts.set(normalized, (phraseCounts.get(normalized) ?? 0) + count);
+  });
+  const vectors = buildVectors();
+
+  // Leader clustering, most used phrases first so they anchor the clusters
+  const phrases = Array.from(phraseCounts.keys()).sort((a, b) => (phraseCounts.get(b) ?? 0) - (phraseCounts.get(a) ?? 0));
+  let groups: string[][] = [];
+  for (const phrase of phrases) {
+    const vector = vectors.get(phrase)!;
+    let best: string[] | undefined;
+    let bestScore = SIMILARITY_THRESHOLD;
+    for (const group of groups) {
+      const score = cosine(vector, centroid(group, vectors));
+      if (score >= bestScore) {
+        best = group;
+        bestScore = score;
+      }
+    }
+    if (best) best.push(phrase);
+    else groups.push([phrase]);
+  }
+
+  // One refinement pass: move each phrase to its closest final centroid
+  const centroids = groups.map(group => centroid(group, vectors));
+  const refined: string[][] = groups.map(() => []);
+  for (const phrase of phrases) {
+    const vector = vectors.get(phrase)!;
+    let bestIndex = 0;
+    let bestScore = -1;
+    centroids.forEach((c, i) => {
+      const score = cosine(vector, c);
+      if (score > bestScore) {
+        bestIndex = i;
+        bestScore = score;
+      }
+    });
+    refined[bestIndex]!.push(phrase);
+  }
+  groups = refined.filter(group => group.length > 0);
+
+  // Match new groups to old clusters by shared usage, biggest overlaps first
+  const overlaps: { group: number; cluster: HelpCluster; weight: number }[] = [];
+  groups.forEach((group, i) => {
+    for (const cluster of clusters) {
+      const members = new Set(cluster.members);
+      const weight = group.filter(p => members.has(p)).reduce((sum, p) => sum + (phraseCounts.get(p) ?? 1), 0);
+      if (weight > 0) overlaps.push({ group: i, cluster, weight });
+    }
+  });
+  overlaps.sort((a, b) => b.weight - a.weight);
+
+  const matched = new Map<number, HelpCluster>();
+  const usedIds = new Set<string>();
+  for (const { group, cluster } of overlaps) {
+    if (matched.has(group) || usedIds.has(cluster.id)) continue;
+    matched.set(group, cluster);
+    usedIds.add(cluster.id);
+  }
+
+  clusters = groups.map((members, i) => {
+    const previous = matched.get(i);
+    return {
+      id: previous?.id ?? `hc-${nextClusterId++}`,
+      name: previous?.nameEdited ? previous.name : autoName(members),
+      nameEdited: previous?.nameEdited ?? false,
+      members,
+      createdAt: previous?.createdAt ?? new Date(),
+    };
+  });
+
+  phraseToCluster.clear();
+  for (const cluster of clusters) {
+    for (const phrase of cluster.members) phraseToCluster.set(phrase, cluster.id);
+  }
+  newSinceRecluster = 0;
+  saveHelpClusters();
+}
+
+/**
+ * Assign a newly extracted help topic to the closest cluster (or a new one).
+ * Returns the cluster ID.
+ */
+export function assignHelpTopic(topic: string): string {
+  const phrase = normalizeHelpPhrase(topic);
+  phraseCounts.set(phrase, (phraseCounts.get(phrase) ?? 0) + 1);
+
+  const existing = phraseToCluster.get(phrase);
+  if (existing) return existing;
+
+  const vectors = buildVectors();
+  const vector = vectors.get(phrase)!;
+  let best: HelpCluster | undefined;
+  let bestScore = SIMILARITY_THRESHOLD;
+  for (const cluster of clusters) {
+    const score = cosine(vector, centroid(cluster.members, vectors));
+    if (score >= bestScore) {
+      best = cluster;
+      bestScore = score;
+    }
+  }
+
+  if (!best) {
+    best = { id: `hc-${nextClusterId++}`, name: phrase, nameEdited: false, members: [], createdAt: new Date() };
+    clusters.push(best);
+  }
+  best.members.push(phrase);
+  if (!best.nameEdited) best.name = autoName(best.members);
+  phraseToCluster.set(phrase, best.id);
+
+  newSinceRecluster++;
+  debouncedSave();
+  return best.id;
+}
+
+/**
+ * Whether enough new topics arrived that clusters should be rebuilt
+ */
+export function needsRecluster(): boolean {
+  return newSinceRecluster >= RECLUSTER_AFTER_NEW_TOPICS;
+}
+
+/**
+ * Get the cluster a help topic belongs to
+ */
+export function getHelpClusterForTopic(topic: string): HelpCluster | undefined {
+  const id = phraseToCluster.get(normalizeHelpPhrase(topic));
+  return id ? getHelpCluster(id) : undefined;
+}
+
+export function getHelpCluster(id: string): HelpCluster | undefined {
+  return clusters.find(c => c.id === id);
+}
+
+export function getHelpClusters(): HelpCluster[] {
+  return [...clusters];
+}
+
+/**
+ * Give a cluster a canonical name (kept through re-clustering)
+ */
+export function renameHelpCluster(id: string, name: string): HelpCluster | undefined {
+  const cluster = getHelpCluster(id);
+  if (!cluster || !name.trim()) return undefined;
+
+  cluster.name = name.trim();
+  cluster.nameEdited = true;
+  saveHelpClusters();
+  return cluster;
+}
+
+/**
+ * Format the cluster list for Slack (IDs are what /discord-stats rename-cluster takes)
+ */
+export function formatHelpClustersForSlack(limit: number = 20): { text: string; blocks: object[] } {
+  const usage = (cluster: HelpCluster) => cluster.members.reduce((sum, p) => sum + (phraseCounts.get(p) ?? 0), 0);
+  const sorted = [...clusters].sort((a, b) => usage(b) - usage(a)).slice(0, limit);
+
+  if (sorted.length === 0) {
+    return {
+      text: 'No help topic clusters yet',
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: "🧩 *Help Topic Clusters*\n\n_No help topics have been clustered yet._" },
+        },
+      ],
+    };
+  }
+
+  const lines = sorted.map(c => {
+    const examples = c.members.filter(p => p !== c.name).slice(0, 3).map(p => `"${p}"`).join(', ');
+    return `\`${c.id}\` *${c.name}*${c.nameEdited ? ' ✏️' : ''} — ${usage(c)} requests${examples ? `\n      _also: ${examples}_` : ''}`;
+  });
+
+  return {
+    text: `${clusters.length} help topic clusters`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: '🧩 Help Topic Clusters', emoji: true },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: lines.join('\n') },
+      },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: '_Rename a cluster with `/discord-stats rename-cluster <id> <name>`_' },
+        ],
+      },
+    ],
+  };
+}
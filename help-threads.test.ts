@@ -0,0 +1,74 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isClosingMessage, percentile, summarize, type HelpThread } from "./help-threads";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function thread(overrides: Partial<HelpThread> = {}): HelpThread {
+  return {
+    threadId: 't',
+    forumId: 'f',
+    title: 'Help',
+    authorId: 'a',
+    createdAt: new Date('2026-01-05T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function hoursAfterCreation(hours: number): Date {
+  return new Date(thread().createdAt.getTime() + hours * HOUR_MS);
+}
+
+describe('isClosingMessage', () => {
+  test('recognizes the author closing the thread', () => {
+    for (const content of ['thanks, that worked!', 'Works now', 'solved it', 'Fixed', 'thank you, this helped a lot']) {
+      assert.equal(isClosingMessage(content), true, content);
+    }
+  });
+
+  test('ignores follow-up questions and messages that say it still fails', () => {
+    for (const content of ['that worked, but what about the proxy?', 'thanks, still not working', "it didn't fix it", 'thanks for looking']) {
+      assert.equal(isClosingMessage(content), false, content);
+    }
+  });
+});
+
+describe('percentile', () => {
+  test('is undefined without values', () => {
+    assert.equal(percentile([], 0.5), undefined);
+  });
+
+  test('uses the nearest rank of the sorted values', () => {
+    const values = [50, 10, 40, 20, 30];
+    assert.equal(percentile(values, 0.5), 30);
+    assert.equal(percentile(values, 0.9), 50);
+    assert.equal(percentile(values, 0), 10);
+    assert.equal(percentile([7], 0.9), 7);
+  });
+});
+
+describe('summarize', () => {
+  test('counts answered, resolved and abandoned threads', () => {
+    const stats = summarize([
+      thread({ firstReplyAt: hoursAfterCreation(1), resolvedAt: hoursAfterCreation(5) }),
+      thread({ firstReplyAt: hoursAfterCreation(3) }),
+      thread({ abandonedAt: hoursAfterCreation(72) }),
+      thread(),
+    ]);
+
+    assert.equal(stats.threads, 4);
+    assert.equal(stats.answered, 2);
+    assert.equal(stats.resolved, 1);
+    assert.equal(stats.abandoned, 1);
+    assert.equal(stats.medianFirstResponseMs, 1 * HOUR_MS);
+    assert.equal(stats.p90FirstResponseMs, 3 * HOUR_MS);
+    assert.equal(stats.medianResolutionMs, 5 * HOUR_MS);
+  });
+
+  test('leaves times undefined for an empty group', () => {
+    const stats = summarize([]);
+    assert.equal(stats.threads, 0);
+    assert.equal(stats.medianFirstResponseMs, undefined);
+    assert.equal(stats.p90ResolutionMs, undefined);
+  });
+});
@@ -0,0 +1,540 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+import { getStore, type AnalyticsFilter } from "./storage";
+import { getHelpClusterForTopic, normalizeHelpPhrase } from "./help-clusters";
+
+// A #help forum thread and whether anyone besides its author has replied
+export interface HelpThread {
+  threadId: string;
+  forumId: string;
+  title: string;
+  authorId: string; // Thread owner
+  author?: string; // Username, missing when tracking started after the opening post
+  createdAt: Date;
+  firstReplyAt?: Date; // First message from someone other than the author
+  firstReplyAuthorId?: string;
+  firstReplyAuthor?: string;
+  resolvedAt?: Date;
+  resolvedBy?: HelpThreadResolution; // How the resolution was detected
+  abandonedAt?: Date; // Archived before anyone replied (Discord auto-archives idle threads)
+  escalation?: HelpThreadEscalation;
+}
+
+// "tag": a solved-style forum tag was applied; "archived": the thread was archived after a reply;
+// "thanks": the author posted a closing message after a reply
+export type HelpThreadResolution = 'tag' | 'archived' | 'thanks';
+
+// The Slack card posted when a thread went unanswered past the SLA
+export interface HelpThreadEscalation {
+  escalatedAt: Date;
+  slackChannel: string;
+  slackTs: string;
+  claimedBy?: string; // Slack user ID of whoever clicked "I'll take it"
+  claimedAt?: Date;
+}
+
+export type HelpThreadStatus = 'waiting' | 'escalated' | 'claimed' | 'answered';
+
+// A forum thread as seen on a Discord message in it
+export interface HelpThreadInfo {
+  threadId: string;
+  forumId: string;
+  title: string;
+  ownerId?: string;
+  createdAt?: Date;
+}
+
+// A message posted in a help thread
+export interface HelpThreadMessage {
+  messageId: string;
+  authorId: string;
+  author: string;
+  content: string;
+  timestamp: Date;
+}
+
+// Persistence file path
+const HELP_THREADS_FILE = path.join(process.cwd(), 'help-threads-data.json');
+
+const HELP_THREADS_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ threads: data.threads || [] })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Threads older than this aren't escalated (e.g. ones found by the first backfill)
+const MAX_ESCALATION_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Forum tags that mark a thread as solved
+const SOLVED_TAG_PATTERN = /\b(solved|resolved|answered|fixed)\b/i;
+
+// The author closing their thread ("thanks, that worked", "works now", "solved!")...
+const CLOSING_MESSAGE_PATTERN = /\b(that|this|it) (worked|works|fixed it|did it|did the trick)\b|\bworks now\b|\b(solved|fixed) (it|now)\b|^\s*(solved|fixed)\b|\bthanks?\b.*\b(worked|works|fixed|solved|helped)\b/i;
+// ...unless it's still a question or says it didn't help
+const NOT_CLOSING_PATTERN = /\?|\b(not|still|but|doesn't|didn't|isn't)\b/i;
+
+// Weeks shown in the response time report when no period is given
+const REPORT_WEEKS = 8;
+
+const threads = new Map<string, HelpThread>();
+
+// How long a thread may go without a reply before it's escalated (HELP_REPLY_SLA_HOURS, defaults to 4)
+export function getHelpReplySlaMs(): number {
+  const hours = Number(process.env.HELP_REPLY_SLA_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 4) * 60 * 60 * 1000;
+}
+
+/**
+ * Load tracked help threads from disk
+ */
+export function loadHelpThreads(): void {
+  try {
+    const data = readVersionedJsonFile(HELP_THREADS_FILE, HELP_THREADS_SCHEMA);
+    if (!data) return;
+
+    for (const raw of data.threads || []) {
+      // Older files counted archiving an unanswered thread as resolving it
+      const abandonedAt = raw.abandonedAt ?? (raw.resolvedBy === 'archived' && !raw.firstReplyAt ? raw.resolvedAt : undefined);
+      const resolved = raw.resolvedAt && !(raw.resolvedBy === 'archived' && !raw.firstReplyAt);
+      threads.set(raw.threadId, {
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        firstReplyAt: raw.firstReplyAt ? new Date(raw.firstReplyAt) : undefined,
+        resolvedAt: resolved ? new Date(raw.resolvedAt) : undefined,
+        resolvedBy: resolved ? raw.resolvedBy : undefined,
+        abandonedAt: abandonedAt ? new Date(abandonedAt) : undefined,
+        escalation: raw.escalation ? {
+          ...raw.escalation,
+          escalatedAt: new Date(raw.escalation.escalatedAt),
+          claimedAt: raw.escalation.claimedAt ? new Date(raw.escalation.claimedAt) : undefined,
+        } : undefined,
+      });
+    }
+    console.log(`   🆘 Loaded ${threads.size} help threads from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(HELP_THREADS_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save tracked help threads to disk
+ */
+function saveHelpThreads(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(HELP_THREADS_FILE, HELP_THREADS_SCHEMA, { threads: Array.from(threads.values()) });
+  } catch (error) {
+    console.error('Failed to save help threads:', error);
+  }
+}
+
+// Debounce saves, every #help message can touch a thread
+let saveTimeout: NodeJS.Timeout | null = null;
+function debouncedSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    saveHelpThreads();
+  }, 2000);
+}
+
+/**
+ * Write a pending debounced save now (on shutdown)
+ */
+export function flushHelpThreads(): void {
+  if (!saveTimeout) return;
+  clearTimeout(saveTimeout);
+  saveTimeout = null;
+  saveHelpThreads();
+}
+
+export function getHelpThread(threadId: string): HelpThread | undefined {
+  return threads.get(threadId);
+}
+
+export function getHelpThreads(): HelpThread[] {
+  return Array.from(threads.values());
+}
+
+export function getHelpThreadStatus(thread: HelpThread): HelpThreadStatus {
+  if (thread.firstReplyAt) return 'answered';
+  if (thread.escalation?.claimedBy) return 'claimed';
+  return thread.escalation ? 'escalated' : 'waiting';
+}
+
+/**
+ * Track a message in a help thread. The opening post (its ID is the thread ID) sets the
+ * author; the first message from anyone else answers the thread. Returns the thread when
+ * this message was its first reply.
+ */
+export function trackHelpThreadMessage(info: HelpThreadInfo, message: HelpThreadMessage): HelpThread | undefined {
+  const isOpeningPost = message.messageId === info.threadId;
+  let thread = threads.get(info.threadId);
+
+  if (!thread) {
+    const authorId = info.ownerId ?? (isOpeningPost ? message.authorId : undefined);
+    // Without the owner there's no telling a reply from a follow-up
+    if (!authorId) return undefined;
+
+    thread = {
+      threadId: info.threadId,
+      forumId: info.forumId,
+      title: info.title,
+      authorId,
+      createdAt: info.createdAt ?? message.timestamp,
+    };
+    threads.set(thread.threadId, thread);
+  }
+
+  thread.title = info.title;
+  if (message.authorId === thread.authorId) {
+    if (!thread.author) thread.author = message.author;
+    if (thread.firstReplyAt && thread.firstReplyAt < message.timestamp && isClosingMessage(message.content)) {
+      resolveHelpThread(thread.threadId, message.timestamp, 'thanks');
+    }
+    debouncedSave();
+    return undefined;
+  }
+
+  // Backfills can deliver a reply after a later one was seen live; keep the earliest
+  if (thread.firstReplyAt && thread.firstReplyAt <= message.timestamp) return undefined;
+
+  const firstReply = !thread.firstReplyAt;
+  thread.firstReplyAt = message.timestamp;
+  // Someone replied after all (posting reopens an archived thread)
+  thread.abandonedAt = undefined;
+  thread.firstReplyAuthorId = message.authorId;
+  thread.firstReplyAuthor = message.author;
+  debouncedSave();
+  return firstReply ? thread : undefined;
+}
+
+/**
+ * True for a message that closes a thread ("thanks, that worked")
+ */
+export function isClosingMessage(content: string): boolean {
+  return CLOSING_MESSAGE_PATTERN.test(content) && !NOT_CLOSING_PATTERN.test(content);
+}
+
+/**
+ * True for a forum tag name that marks a thread as solved
+ */
+export function isSolvedTagName(name: string): boolean {
+  return SOLVED_TAG_PATTERN.test(name);
+}
+
+/**
+ * Mark a thread resolved. The earliest resolution is kept, so a thread tagged solved and
+ * then auto-archived counts from the tag. Archiving only resolves a thread that got a reply
+ * first; an unanswered archived thread is marked abandoned instead.
+ */
+export function resolveHelpThread(threadId: string, at: Date, how: HelpThreadResolution): HelpThread | undefined {
+  const thread = threads.get(threadId);
+  if (!thread || (thread.resolvedAt && thread.resolvedAt <= at)) return undefined;
+
+  if (how === 'archived' && !(thread.firstReplyAt && thread.firstReplyAt <= at)) {
+    if (!thread.resolvedAt && !thread.abandonedAt) {
+      thread.abandonedAt = at;
+      debouncedSave();
+    }
+    return undefined;
+  }
+
+  thread.resolvedAt = at;
+  thread.resolvedBy = how;
+  debouncedSave();
+  return thread;
+}
+
+/**
+ * Threads past the reply SLA that haven't been escalated yet
+ */
+export function getOverdueHelpThreads(now: Date = new Date()): HelpThread[] {
+  const slaMs = getHelpReplySlaMs();
+  return Array.from(threads.values())
+    .filter(t => !t.firstReplyAt && !t.resolvedAt && !t.abandonedAt && !t.escalation)
+    .filter(t => now.getTime() - t.createdAt.getTime() >= slaMs)
+    .filter(t => now.getTime() - t.createdAt.getTime() <= MAX_ESCALATION_AGE_MS)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Remember the Slack card posted for an overdue thread
+ */
+export function setHelpThreadEscalation(threadId: string, slackChannel: string, slackTs: string): HelpThread | undefined {
+  const thread = threads.get(threadId);
+  if (!thread) return undefined;
+
+  thread.escalation = { escalatedAt: new Date(), slackChannel, slackTs };
+  saveHelpThreads();
+  return thread;
+}
+
+/**
+ * Claim an escalated thread for a Slack user. A thread someone else already claimed
+ * keeps its claim.
+ */
+export function claimHelpThread(threadId: string, slackUserId: string): HelpThread | undefined {
+  const thread = threads.get(threadId);
+  if (!thread?.escalation) return undefined;
+
+  if (!thread.escalation.claimedBy) {
+    thread.escalation.claimedBy = slackUserId;
+    thread.escalation.claimedAt = new Date();
+    saveHelpThreads();
+  }
+  return thread;
+}
+
+/**
+ * Format a duration as "3h 12m" (or "2d 4h" for long ones)
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(Math.round(ms / 60000), 0);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return hours % 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * The help topic cluster of a thread's opening post
+ */
+function getThreadHelpTopic(thread: HelpThread): string | undefined {
+  const helpTopic = getStore().getMessageById(thread.threadId)?.helpTopic;
+  if (!helpTopic) return undefined;
+  return getHelpClusterForTopic(helpTopic)?.name ?? normalizeHelpPhrase(helpTopic);
+}
+
+/**
+ * Format the escalation card for an unanswered help thread, with a claim button until
+ * someone takes it
+ */
+export function formatHelpEscalationForSlack(thread: HelpThread, guildId: string): { text: string; blocks: object[] } {
+  const discordUrl = `https://discord.com/channels/${guildId}/${thread.threadId}`;
+  const opening = getStore().getMessageById(thread.threadId);
+  const helpTopic = getThreadHelpTopic(thread);
+  const content = opening?.content ? (opening.content.length > 300 ? opening.content.substring(0, 300) + '...' : opening.content) : '';
+  const waiting = formatDuration((thread.firstReplyAt ?? new Date()).getTime() - thread.createdAt.getTime());
+  const sla = `SLA ${formatDuration(getHelpReplySlaMs())}`;
+
+  const blocks: object[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🆘 *Unanswered in #help* | ${thread.author ?? `<@${thread.authorId}>`}\n*<${discordUrl}|${thread.title.replace(/[<>|]/g, '')}>*${content ? `\n\n>${content.replace(/\n/g, '\n>')}` : ''}`,
+      },
+    },
+    {
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `${helpTopic ? `Help topic: *${helpTopic}* · ` : ''}${thread.firstReplyAt ? sla : `No reply for ${waiting} (${sla})`}` },
+      ],
+    },
+  ];
+
+  const status = getHelpThreadStatus(thread);
+  const claim = thread.escalation?.claimedBy ? `🙋 Claimed by <@${thread.escalation.claimedBy}>` : '';
+  if (status === 'answered') {
+    blocks.push({
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `✅ Answered by ${thread.firstReplyAuthor ?? 'someone'} after ${waiting}${claim ? ` · ${claim}` : ''}` },
+      ],
+    });
+  } else if (status === 'claimed') {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: claim }],
+    });
+  } else {
+    blocks.push({
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: "🙋 I'll take it", emoji: true },
+          style: 'primary',
+          action_id: `help_claim_${thread.threadId}`,
+          value: thread.threadId,
+        },
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '🔗 View on Discord', emoji: true },
+          url: discordUrl,
+          action_id: 'view_discord',
+        },
+      ],
+    });
+  }
+
+  return { text: `Unanswered #help thread: ${thread.title} (${waiting})`, blocks };
+}
+
+// Response and resolution times for a group of threads
+export interface HelpResponseStats {
+  threads: number;
+  answered: number;
+  resolved: number;
+  abandoned: number; // Archived without a reply
+  medianFirstResponseMs?: number;
+  p90FirstResponseMs?: number;
+  medianResolutionMs?: number;
+  p90ResolutionMs?: number;
+}
+
+export interface HelpResponseMetrics {
+  overall: HelpResponseStats;
+  byTopic: Array<{ topic: string; stats: HelpResponseStats }>; // Most threads first
+  byWeek: Array<{ weekStart: Date; stats: HelpResponseStats }>; // Oldest first
+}
+
+/**
+ * Nearest-rank percentile (p between 0 and 1) of unsorted values
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)];
+}
+
+/**
+ * Response and resolution figures for a group of threads
+ */
+export function summarize(group: HelpThread[]): HelpResponseStats {
+  const responseTimes = group
+    .filter(t => t.firstReplyAt)
+    .map(t => t.firstReplyAt!.getTime() - t.createdAt.getTime());
+  const resolutionTimes = group
+    .filter(t => t.resolvedAt)
+    .map(t => t.resolvedAt!.getTime() - t.createdAt.getTime());
+
+  return {
+    threads: group.length,
+    answered: responseTimes.length,
+    resolved: resolutionTimes.length,
+    abandoned: group.filter(t => t.abandonedAt).length,
+    medianFirstResponseMs: percentile(responseTimes, 0.5),
+    p90FirstResponseMs: percentile(responseTimes, 0.9),
+    medianResolutionMs: percentile(resolutionTimes, 0.5),
+    p90ResolutionMs: percentile(resolutionTimes, 0.9),
+  };
+}
+
+// Monday 00:00 UTC of the week a date falls in
+function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+/**
+ * Time to first response and time to resolution for threads created in a period,
+ * by help topic cluster and by week
+ */
+export function getHelpResponseMetrics(filter: AnalyticsFilter = {}): HelpResponseMetrics {
+  const inPeriod = Array.from(threads.values()).filter(t =>
+    (!filter.since || t.createdAt >= filter.since) && (!filter.until || t.createdAt < filter.until)
+  );
+
+  const byTopic = new Map<string, HelpThread[]>();
+  const byWeek = new Map<number, HelpThread[]>();
+  for (const thread of inPeriod) {
+    const topic = getThreadHelpTopic(thread) ?? 'Unclassified';
+    byTopic.set(topic, [...(byTopic.get(topic) ?? []), thread]);
+
+    const week = getWeekStart(thread.createdAt).getTime();
+    byWeek.set(week, [...(byWeek.get(week) ?? []), thread]);
+  }
+
+  return {
+    overall: summarize(inPeriod),
+    byTopic: Array.from(byTopic.entries())
+      .map(([topic, group]) => ({ topic, stats: summarize(group) }))
+      .sort((a, b) => b.stats.threads - a.stats.threads),
+    byWeek: Array.from(byWeek.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([week, group]) => ({ weekStart: new Date(week), stats: summarize(group) })),
+  };
+}
+
+/**
+ * One line of response time figures ("12 threads · 10 answered, first reply 2h median, 9h p90 · ...")
+ */
+function formatResponseStats(stats: HelpResponseStats): string {
+  const duration = (ms?: number) => (ms === undefined ? '—' : formatDuration(ms));
+  const firstReply = stats.answered > 0
+    ? `${stats.answered} answered, first reply ${duration(stats.medianFirstResponseMs)} median, ${duration(stats.p90FirstResponseMs)} p90`
+    : 'no replies yet';
+  const resolution = stats.resolved > 0
+    ? `resolved ${stats.resolved} in ${duration(stats.medianResolutionMs)} median, ${duration(stats.p90ResolutionMs)} p90`
+    : 'none resolved';
+  const abandoned = stats.abandoned > 0 ? ` · ${stats.abandoned} abandoned` : '';
+  return `${stats.threads} thread${stats.threads === 1 ? '' : 's'} · ${firstReply} · ${resolution}${abandoned}`;
+}
+
+/**
+ * Format help thread response and resolution times for Slack (the last 8 weeks unless
+ * the filter gives a period)
+ */
+export function formatHelpResponseTimesForSlack(filter: AnalyticsFilter = {}): { text: string; blocks: object[] } {
+  const period: AnalyticsFilter = filter.since || filter.until
+    ? filter
+    : { since: getWeekStart(new Date(Date.now() - (REPORT_WEEKS - 1) * 7 * 24 * 60 * 60 * 1000)) };
+  const metrics = getHelpResponseMetrics(period);
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  const periodLabel = period.since
+    ? `Threads opened since ${day(period.since)}${period.until ? ` until ${day(new Date(period.until.getTime() - 1))}` : ''}`
+    : `Threads opened before ${day(period.until!)}`;
+
+  if (metrics.overall.threads === 0) {
+    return {
+      text: 'No help threads tracked in this period',
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `⏱️ *Help Response Times*\n\n_No #help threads tracked. ${periodLabel}._` },
+        },
+      ],
+    };
+  }
+
+  const topicLines = metrics.byTopic
+    .slice(0, 8)
+    .map(({ topic, stats }) => `• *${topic}*: ${formatResponseStats(stats)}`);
+  const weekLines = metrics.byWeek
+    .map(({ weekStart, stats }) => `• Week of ${day(weekStart)}: ${formatResponseStats(stats)}`);
+
+  return {
+    text: `Help response times: ${formatResponseStats(metrics.overall)}`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: '⏱️ Help Response Times', emoji: true },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*Overall:* ${formatResponseStats(metrics.overall)}` },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*By help topic*\n${topicLines.join('\n')}` },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*By week*\n${weekLines.join('\n')}` },
+      },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: `_${periodLabel} · Resolved = solved tag, archived, or a "thanks, that worked" from the author_` },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Versioned JSON data file. migrations[n] upgrades data from schemaVersion n to n + 1
+// (files written before versioning are version 0).
+export interface JsonFileSchema {
+  version: number;
+  migrations: Array<(data: any) => any>;
+  backups?: number; // Rotated copies to keep (<file>.bak.1 is the newest)
+  pretty?: boolean; // false writes compact JSON (large files)
+}
+
+// Rotate backups at most this often, so frequent saves don't churn them
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+
+function backupPath(file: string, n: number): string {
+  return `${file}.bak.${n}`;
+}
+
+/**
+ * Copy the current file to <file>.bak.1, shifting older backups down
+ */
+function rotateBackups(file: string, count: number): void {
+  if (!fs.existsSync(file)) return;
+
+  const newest = backupPath(file, 1);
+  if (fs.existsSync(newest) && Date.now() - fs.statSync(newest).mtimeMs < BACKUP_INTERVAL_MS) return;
+
+  for (let n = count; n > 1; n--) {
+    if (fs.existsSync(backupPath(file, n - 1))) {
+      fs.renameSync(backupPath(file, n - 1), backupPath(file, n));
+    }
+  }
+  fs.copyFileSync(file, newest);
+}
+
+/**
+ * Write JSON to a temp file and rename it over the target, so a crash mid-write
+ * leaves the previous version intact instead of a truncated file
+ */
+export function writeJsonFileAtomic(file: string, data: unknown, options: { pretty?: boolean; backups?: number } = {}): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, JSON.stringify(data, null, options.pretty === false ? undefined : 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (options.backups) rotateBackups(file, options.backups);
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Write a versioned data file (stamped with the schema's current version)
+ */
+export function writeVersionedJsonFile(file: string, schema: JsonFileSchema, data: object): void {
+  writeJsonFileAtomic(file, { schemaVersion: schema.version, ...data }, { backups: schema.backups, pretty: schema.pretty });
+}
+
+/**
+ * Upgrade data to the schema's current version
+ */
+function migrate(file: string, schema: JsonFileSchema, data: any): any {
+  const from = typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (from > schema.version) {
+    throw new Error(`${path.basename(file)} has schemaVersion ${from}, newer than this build supports (${schema.version})`);
+  }
+
+  let migrated = data;
+  for (let version = from; version < schema.version; version++) {
+    const step = schema.migrations[version];
+    if (!step) throw new Error(`No migration from schemaVersion ${version} for ${path.basename(file)}`);
+    migrated = step(migrated);
+  }
+  if (from < schema.version) {
+    console.log(`   🔧 Migrated ${path.basename(file)} from schemaVersion ${from} to ${schema.version}`);
+  }
+  return { ...migrated, schemaVersion: schema.version };
+}
+
+/**
+ * Read a versioned data file, migrating it to the current schema. If the file exists but
+ * can't be parsed, the newest readable backup is used instead. Returns undefined when
+ * there's no file yet.
+ */
+export function readVersionedJsonFile(file: string, schema: JsonFileSchema): any | undefined {
+  if (!fs.existsSync(file)) return undefined;
+
+  const candidates = [file];
+  for (let n = 1; n <= (schema.backups ?? 0); n++) candidates.push(backupPath(file, n));
+
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate)) continue;
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(candidate, 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to read ${path.basename(candidate)}:`, error);
+      continue;
+    }
+    if (candidate !== file) {
+      console.warn(`   ♻️ Recovered ${path.basename(file)} from backup ${path.basename(candidate)}`);
+    }
+    return migrate(file, schema, data);
+  }
+
+  throw new Error(`${path.basename(file)} and its backups are unreadable`);
+}
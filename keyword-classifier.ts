@@ -0,0 +1,110 @@
+import { getTopicsForChannel, getTopicDefinition, getFallbackTopic, type Topic } from "./taxonomy";
+
+// Keyword rules for the offline classifier. Each match adds the weight to that topic's score.
+// Topics without rules here can still match through their "keywords" in topics.json.
+const TOPIC_RULES: Record<string, { patterns: RegExp[]; weight: number }> = {
+  'bug-report': {
+    patterns: [
+      /\b(bug|broken|crash(es|ed|ing)?|regression|doesn'?t work|not working|stopped working|fails?|failed|failing)\b/i,
+      /\b(unexpected(ly)?|wrong|incorrect|glitch|hangs?|freez(e|es|ing))\b/i,
+    ],
+    weight: 2,
+  },
+  'support-request': {
+    patterns: [
+      /\b(help|stuck|trouble|issue|problem|can'?t|cannot|unable to|won'?t)\b/i,
+      /\b(install(ing|ation)?|set ?up|configur(e|ing|ation)|deploy(ing|ment)?|connect(ing|ion)?|troubleshoot(ing)?)\b/i,
+    ],
+    weight: 1.5,
+  },
+  'feature-request': {
+    patterns: [
+      /\b(feature request|would be (nice|great|cool)|please add|can you add|could you add|it would help if|wish (it|there)|support for|add support)\b/i,
+      /\b(suggest(ion)?|enhancement|improvement|roadmap|any plans? (to|for))\b/i,
+    ],
+    weight: 2,
+  },
+  'praise': {
+    patterns: [
+      /\b(thanks?|thank you|thx|ty|appreciate(d)?|awesome|amazing|love (it|this|the)|great (job|work)|kudos|nice work)\b/i,
+      /(🎉|🙏|❤️|🔥|💯|👏)/,
+    ],
+    weight: 1.5,
+  },
+  'question': {
+    patterns: [
+      /^(what|how|why|when|where|which|who|is|are|does|do|can|could|should|will)\b/i,
+      /\b(wondering|curious|anyone know|is there a way|what'?s the difference)\b/i,
+    ],
+    weight: 1,
+  },
+  'general-discussion': {
+    patterns: [
+      /\b(hi|hello|hey|welcome|good (morning|evening|night)|gm|lol|haha)\b/i,
+      /\b(i'?m new|just joined|introduc(e|ing|tion))\b/i,
+    ],
+    weight: 1,
+  },
+};
+
+// Weight for each topics.json keyword that matches
+const CONFIG_KEYWORD_WEIGHT = 2;
+
+// Error logs and stack traces are strong signs of a bug report or support request
+const ERROR_LOG_PATTERNS = [
+  /\b(error|exception|traceback|panic|fatal|segfault)\b[:\s]/i,
+  /\bat \S+ \(\S+:\d+:\d+\)/, // JS stack frame
+  /\bexit (code|status) \d+/i,
+  /\b(E|ERR|ERROR)\s*\[?\d{3,}/,
+  /```[\s\S]*(error|failed)[\s\S]*```/i,
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Classify a message with keyword rules (deterministic, works offline).
+ * Only topics allowed in the channel are considered.
+ */
+export function classifyWithRules(content: string, channel?: string): Topic {
+  const allowed = getTopicsForChannel(channel);
+  const fallback = allowed.includes(getFallbackTopic()) ? getFallbackTopic() : allowed[0]!;
+
+  const text = content.trim();
+  if (!text) return fallback;
+
+  const scores = new Map<Topic, number>(allowed.map(topic => [topic, 0]));
+  const boost = (topic: Topic, amount: number) => {
+    const score = scores.get(topic);
+    if (score !== undefined) scores.set(topic, score + amount);
+  };
+
+  for (const topic of allowed) {
+    const rule = TOPIC_RULES[topic];
+    for (const pattern of rule?.patterns ?? []) {
+      if (pattern.test(text)) boost(topic, rule!.weight);
+    }
+    for (const keyword of getTopicDefinition(topic)?.keywords ?? []) {
+      if (new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(text)) boost(topic, CONFIG_KEYWORD_WEIGHT);
+    }
+  }
+
+  // Pasted error output: a bug report, or a support request when they're asking for help
+  if (ERROR_LOG_PATTERNS.some(p => p.test(text))) {
+    boost('bug-report', 2);
+    boost('support-request', 1.5);
+  }
+
+  // A question mark makes it a question unless something more specific matched
+  if (text.includes('?')) {
+    boost('question', 1.5);
+    boost('support-request', 0.5);
+  }
+
+  let best: Topic = fallback;
+  for (const [topic, score] of scores) {
+    if (score > (scores.get(best) ?? 0)) best = topic;
+  }
+  return best;
+}
@@ -0,0 +1,95 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateText, type LanguageModel } from 'ai';
+import { getModelConfig, type LlmProvider, type LlmTask, type ModelConfig } from "./models";
+
+// Provider clients are created on first use so they pick up env loaded by dotenv
+const providers = new Map<LlmProvider, (modelId: string) => LanguageModel>();
+
+function getProvider(provider: LlmProvider): (modelId: string) => LanguageModel {
+  const existing = providers.get(provider);
+  if (existing) return existing;
+
+  let factory: (modelId: string) => LanguageModel;
+  switch (provider) {
+    case 'anthropic': {
+      const anthropic = createAnthropic({
+        baseURL: 'https://api.anthropic.com/v1',
+        apiKey: process.env.ANTHROPIC_API_KEY,
+      });
+      factory = (modelId) => anthropic(modelId);
+      break;
+    }
+    case 'openai': {
+      const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      factory = (modelId) => openai(modelId);
+      break;
+    }
+    case 'ollama': {
+      // Ollama (and other local servers) expose the OpenAI chat completions API
+      const ollama = createOpenAI({
+        name: 'ollama',
+        baseURL: process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434/v1',
+        apiKey: 'ollama', // Required by the client, ignored by Ollama
+      });
+      factory = (modelId) => ollama.chat(modelId);
+      break;
+    }
+    case 'stub':
+      throw new Error('The stub provider only works through generateForTask');
+  }
+
+  providers.set(provider, factory);
+  return factory;
+}
+
+/**
+ * Get a language model for a provider/model config
+ */
+export function getLanguageModel(config: ModelConfig): LanguageModel {
+  return getProvider(config.provider)(config.model);
+}
+
+/**
+ * Describe the model a task uses, e.g. "anthropic:claude-sonnet-4-20250514"
+ */
+export function describeModel(task: LlmTask): string {
+  const { provider, model } = getModelConfig(task);
+  return `${provider}:${model}`;
+}
+
+// Answers prompts for the "stub" provider (set by the classification eval)
+export type StubResponder = (task: LlmTask, prompt: string) => string | Promise<string>;
+
+let stubResponder: StubResponder | null = null;
+
+/**
+ * Set the function that answers prompts for tasks routed to the "stub" provider
+ */
+export function setStubResponder(responder: StubResponder | null): void {
+  stubResponder = responder;
+}
+
+export interface GenerateOptions {
+  system?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Generate text for a task using the model configured for it
+ */
+export async function generateForTask(task: LlmTask, prompt: string, options: GenerateOptions = {}): Promise<string> {
+  const config = getModelConfig(task);
+  if (config.provider === 'stub') {
+    if (!stubResponder) throw new Error(`No stub responder set for ${task}`);
+    return stubResponder(task, prompt);
+  }
+
+  const { text } = await generateText({
+    model: getLanguageModel(config),
+    prompt,
+    ...options,
+  });
+  return text;
+}
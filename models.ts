@@ -3,6 +3,59 @@ export const ANTHROPIC_CONFIG = {
   model: 'claude-sonnet-4-20250514',
 } as const;
 
+// LLM providers the agent can talk to ("ollama" is any OpenAI-compatible local endpoint,
+// "stub" answers from a local function and is only used by the classification eval)
+export type LlmProvider = 'anthropic' | 'openai' | 'ollama' | 'stub';
+
+// Each task that calls an LLM can be routed to its own provider and model
+export type LlmTask = 'welcome' | 'draft-scoring' | 'classification' | 'help-topic' | 'analytics';
+
+export interface ModelConfig {
+  provider: LlmProvider;
+  model: string;
+}
+
+// Default model for each provider when a task only names the provider
+export const PROVIDER_DEFAULT_MODELS: Record<LlmProvider, string> = {
+  anthropic: ANTHROPIC_CONFIG.model,
+  openai: 'gpt-4o',
+  ollama: 'llama3.1:8b', // Pulled by start-ollama.sh
+  stub: 'keyword-rules',
+};
+
+// Default routing; override per task with LLM_<TASK>_MODEL (e.g. LLM_CLASSIFICATION_MODEL=ollama:llama3.1:8b)
+// or for every task with LLM_DEFAULT_MODEL
+const DEFAULT_MODEL_ROUTING: Record<LlmTask, ModelConfig> = {
+  'welcome': { provider: 'anthropic', model: ANTHROPIC_CONFIG.model },
+  'draft-scoring': { provider: 'anthropic', model: ANTHROPIC_CONFIG.model },
+  'classification': { provider: 'anthropic', model: ANTHROPIC_CONFIG.model },
+  'help-topic': { provider: 'anthropic', model: ANTHROPIC_CONFIG.model },
+  'analytics': { provider: 'anthropic', model: ANTHROPIC_CONFIG.model },
+};
+
+/**
+ * Parse a model spec like "anthropic", "openai:gpt-4o" or "ollama:llama3.1:8b"
+ */
+export function parseModelSpec(spec: string): ModelConfig {
+  const separator = spec.indexOf(':');
+  const provider = (separator === -1 ? spec : spec.slice(0, separator)).trim() as LlmProvider;
+  if (!(provider in PROVIDER_DEFAULT_MODELS)) {
+    throw new Error(`Unknown LLM provider "${provider}" (expected anthropic, openai, ollama or stub)`);
+  }
+
+  const model = separator === -1 ? '' : spec.slice(separator + 1).trim();
+  return { provider, model: model || PROVIDER_DEFAULT_MODELS[provider] };
+}
+
+/**
+ * Get the provider and model for a task - called after env is loaded
+ */
+export function getModelConfig(task: LlmTask): ModelConfig {
+  const envKey = `LLM_${task.toUpperCase().replace(/-/g, '_')}_MODEL`;
+  const override = process.env[envKey] || process.env.LLM_DEFAULT_MODEL;
+  return override ? parseModelSpec(override) : DEFAULT_MODEL_ROUTING[task];
+}
+
 // System prompt for community engagement responses
 export const COMMUNITY_RESPONSE_PROMPT = `You're Marco, a friendly and enthusiastic community manager for the Coder Discord server.
 
@@ -27,11 +80,71 @@ YOUR TASK:
    - New members: "Welcome to the Coder community!" / "Thanks for joining the server!" / "Welcome to the Coder server!"
    - Returning/general: "Hey!" / "Good to see you!" / "Hi there!"
 
+{examples}
 STYLE:
 - Be warm and genuine, not corporate
 - Keep it conversational and enthusiastic
 - 2-3 sentences max
 - One follow-up question only when appropriate
 - Match their energy level
+{tone}
+YOUR RESPONSE:`;
+
+// Tone adjustments offered on the Slack intro card
+export type ResponseTone = 'shorter' | 'technical' | 'playful';
+
+export const RESPONSE_TONES: Record<ResponseTone, { label: string; instruction: string }> = {
+  shorter: {
+    label: 'Shorter',
+    instruction: 'Make it noticeably shorter: one or two brief sentences at most.',
+  },
+  technical: {
+    label: 'More technical',
+    instruction: 'Make it more technical: engage with the specific tools, stack, or infrastructure they mentioned.',
+  },
+  playful: {
+    label: 'More playful',
+    instruction: 'Make it more playful and lighthearted, with a bit of humor or an emoji if it fits.',
+  },
+};
+
+// Prompt used to score how safe an AI welcome draft is to send without review
+export const DRAFT_CONFIDENCE_PROMPT = `You are reviewing an AI-written welcome reply before it is posted in a Discord community without human review.
+
+MESSAGE:
+"{message}"
 
+DRAFT REPLY:
+"{draft}"
+
+Rate your confidence from 0.0 to 1.0 that the draft can be posted as-is. Score LOW if the message is not a genuine introduction, is spam, mentions sensitive topics (hiring, employers, personal problems), asks something the reply does not answer, or if the reply is inaccurate, awkward, or off-tone.
+
+RESPOND WITH ONLY A NUMBER BETWEEN 0.0 AND 1.0`;
+
+// System prompt for follow-up replies in a welcome thread
+export const FOLLOW_UP_RESPONSE_PROMPT = `You're Marco, a friendly and enthusiastic community manager for the Coder Discord server.
+
+CONTEXT:
+You welcomed a new member in a thread on their intro, and they just replied. Keep the conversation going.
+
+THEIR ORIGINAL INTRO:
+"{intro}"
+
+THREAD SO FAR (oldest first):
+{thread}
+
+THEIR NEW REPLY:
+"{message}"
+
+YOUR TASK:
+- Respond directly to what they just said
+- If they asked a question, answer it or point them to the right resource (docs at coder.com/docs, or the #help channel)
+- Only ask a follow-up question if it feels natural; don't interrogate them
+- If the conversation has reached a natural end, a short friendly sign-off is fine
+
+STYLE:
+- Be warm and genuine, not corporate
+- 1-3 sentences max
+- Don't repeat the welcome or anything already said in the thread
+{tone}
 YOUR RESPONSE:`;
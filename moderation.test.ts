@@ -0,0 +1,56 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { screenMessage, type ScreeningInput } from "./moderation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function input(overrides: Partial<ScreeningInput> = {}): ScreeningInput {
+  return {
+    content: "Hi! I'm a platform engineer and we're trying out Coder for our team.",
+    authorCreatedAt: new Date(Date.now() - 365 * DAY_MS),
+    mentionCount: 0,
+    mentionsEveryone: false,
+    ...overrides,
+  };
+}
+
+describe('screenMessage', () => {
+  test('passes an ordinary intro from an established account', () => {
+    const result = screenMessage(input());
+    assert.equal(result.score, 0);
+    assert.equal(result.flagged, false);
+    assert.deepEqual(result.reasons, []);
+  });
+
+  test('flags a scam from a brand new account', () => {
+    const result = screenMessage(input({
+      content: 'Free nitro giveaway!! claim your airdrop at https://discord.gg/abc and dm me',
+      authorCreatedAt: new Date(Date.now() - 60 * 60 * 1000),
+    }));
+    assert.equal(result.flagged, true);
+    assert.ok(result.reasons.includes('Account created less than a day ago'));
+    assert.ok(result.reasons.some(r => r.startsWith('Scam phrases:')));
+  });
+
+  test('matches scam phrases as whole words only', () => {
+    const result = screenMessage(input({ content: 'I work on cryptography and encrypted storage' }));
+    assert.equal(result.score, 0);
+  });
+
+  test('counts a phrase inside a longer matched phrase once', () => {
+    const result = screenMessage(input({ content: 'message me on telegram' }));
+    assert.equal(result.score, 0.25);
+    assert.deepEqual(result.reasons, ['Scam phrases: "message me on telegram"']);
+  });
+
+  test('matches phrases ending in a symbol', () => {
+    const result = screenMessage(input({ content: 'earn $500 a day from home' }));
+    assert.deepEqual(result.reasons, ['Scam phrases: "earn $"']);
+  });
+
+  test('scores mention spam', () => {
+    const result = screenMessage(input({ mentionsEveryone: true, mentionCount: 6 }));
+    assert.deepEqual(result.reasons, ['Mentions @everyone/@here', 'Mentions 6 users/roles']);
+    assert.equal(result.flagged, true);
+  });
+});
@@ -0,0 +1,184 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+
+// Signals used to screen a message before drafting a welcome
+export interface ScreeningInput {
+  content: string;
+  authorCreatedAt: Date;
+  mentionCount: number; // Users + roles mentioned
+  mentionsEveryone: boolean; // @everyone or @here
+}
+
+export interface ScreeningResult {
+  score: number; // 0-1, higher is more likely spam
+  flagged: boolean;
+  reasons: string[];
+}
+
+export type ModerationActionType = 'flagged' | 'delete' | 'timeout' | 'false-positive';
+
+// One moderation action (automatic flag or a reviewer's decision)
+export interface ModerationAction {
+  action: ModerationActionType;
+  messageId: string;
+  channelId: string;
+  authorId: string;
+  authorUsername: string;
+  content: string;
+  score: number;
+  reasons: string[];
+  actor: string; // Slack user who took the action ("bot" for automatic flags)
+  timestamp: Date;
+}
+
+// Messages scoring at or above this are held for moderation instead of getting a welcome draft
+const SPAM_SCORE_THRESHOLD = 0.6;
+
+// Phrases commonly seen in crypto scams and link spam
+const SCAM_PHRASES = [
+  'free nitro',
+  'discord nitro',
+  'airdrop',
+  'giveaway',
+  'crypto',
+  'bitcoin',
+  'nft',
+  'forex',
+  'investment opportunity',
+  'guaranteed profit',
+  'passive income',
+  'seed phrase',
+  'wallet',
+  'claim your',
+  'dm me',
+  'message me on telegram',
+  'telegram',
+  'whatsapp',
+  'earn $',
+  'onlyfans',
+];
+
+// Whole-word patterns for the phrases, so "crypto" doesn't match "cryptography" or "encrypted"
+const SCAM_PHRASE_PATTERNS = SCAM_PHRASES.map(phrase => {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // \b only works next to a word character ("earn $" ends in a symbol)
+  const start = /^\w/.test(phrase) ? '\\b' : '';
+  const end = /\w$/.test(phrase) ? '\\b' : '';
+  return { phrase, pattern: new RegExp(`${start}${escaped}${end}`, 'i') };
+});
+
+const LINK_PATTERN = /https?:\/\/\S+|discord\.gg\/\S+/gi;
+
+// Persistence file path
+const MODERATION_LOG_FILE = path.join(process.cwd(), 'moderation-log-data.json');
+
+const MODERATION_LOG_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ actions: data.actions || [] })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+let moderationLog: ModerationAction[] = [];
+
+/**
+ * Score a message for spam and scam signals
+ */
+export function screenMessage(input: ScreeningInput): ScreeningResult {
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Link density
+  const links = input.content.match(LINK_PATTERN) || [];
+  const words = input.content.split(/\s+/).filter(Boolean).length || 1;
+  if (links.length > 0) {
+    const density = links.length / words;
+    if (links.length >= 3 || density > 0.2) {
+      score += 0.4;
+      reasons.push(`High link density (${links.length} links in ${words} words)`);
+    } else {
+      score += 0.1;
+      reasons.push(`Contains ${links.length} link${links.length > 1 ? 's' : ''}`);
+    }
+  }
+
+  // Known scam phrases. A phrase inside a longer one that also matched ("telegram" in
+  // "message me on telegram") isn't counted again.
+  const matched = SCAM_PHRASE_PATTERNS.filter(p => p.pattern.test(input.content)).map(p => p.phrase);
+  const phrases = matched.filter(p => !matched.some(other => other !== p && other.includes(p)));
+  if (phrases.length > 0) {
+    score += Math.min(0.25 * phrases.length, 0.5);
+    reasons.push(`Scam phrases: ${phrases.map(p => `"${p}"`).join(', ')}`);
+  }
+
+  // New accounts
+  const accountAgeDays = (Date.now() - input.authorCreatedAt.getTime()) / (24 * 60 * 60 * 1000);
+  if (accountAgeDays < 1) {
+    score += 0.3;
+    reasons.push('Account created less than a day ago');
+  } else if (accountAgeDays < 7) {
+    score += 0.2;
+    reasons.push(`Account is ${Math.floor(accountAgeDays)} days old`);
+  }
+
+  // Mention spam
+  if (input.mentionsEveryone) {
+    score += 0.4;
+    reasons.push('Mentions @everyone/@here');
+  }
+  if (input.mentionCount >= 5) {
+    score += 0.3;
+    reasons.push(`Mentions ${input.mentionCount} users/roles`);
+  }
+
+  score = Math.min(score, 1);
+  return { score, flagged: score >= SPAM_SCORE_THRESHOLD, reasons };
+}
+
+/**
+ * Load the moderation log from disk
+ */
+export function loadModerationLog(): void {
+  try {
+    const data = readVersionedJsonFile(MODERATION_LOG_FILE, MODERATION_LOG_SCHEMA);
+    if (!data) return;
+
+    moderationLog = (data.actions || []).map((a: any) => ({
+      ...a,
+      timestamp: new Date(a.timestamp),
+    }));
+    console.log(`   🛡️ Loaded ${moderationLog.length} moderation actions from disk`);
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(MODERATION_LOG_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+/**
+ * Save the moderation log to disk
+ */
+function saveModerationLog(): void {
+  if (loadFailed) return;
+  try {
+    writeVersionedJsonFile(MODERATION_LOG_FILE, MODERATION_LOG_SCHEMA, { actions: moderationLog });
+  } catch (error) {
+    console.error('Failed to save moderation log:', error);
+  }
+}
+
+/**
+ * Record a moderation action
+ */
+export function recordModerationAction(entry: Omit<ModerationAction, 'timestamp'>): void {
+  moderationLog.push({ ...entry, timestamp: new Date() });
+  saveModerationLog();
+}
+
+/**
+ * Get moderation actions for a Discord message
+ */
+export function getModerationActions(messageId: string): ModerationAction[] {
+  return moderationLog.filter(a => a.messageId === messageId);
+}
@@ -0,0 +1,477 @@
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import type { TrackedMessage, ConversationMessage } from "./analytics";
+import type { PendingApproval, WelcomeThread } from "./approvals";
+import {
+  readJsonDataFile,
+  reviveMessage,
+  type AnalyticsFilter,
+  type AnalyticsStore,
+  type MessageQuery,
+  type StoredApprovals,
+  type ThreadReplyCount,
+  type TopicCountRow
+} from "./storage";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id TEXT,
+  channel TEXT NOT NULL,
+  channel_id TEXT,
+  thread_id TEXT,
+  topic TEXT NOT NULL,
+  classified_by TEXT,
+  review_status TEXT,
+  help_topic TEXT,
+  timestamp INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_messages_message_id ON messages(message_id);
+CREATE INDEX IF NOT EXISTS idx_messages_channel_timestamp ON messages(channel, timestamp);
+CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+CREATE INDEX IF NOT EXISTS idx_messages_thread_id ON messages(thread_id);
+CREATE INDEX IF NOT EXISTS idx_messages_channel_id ON messages(channel_id);
+CREATE INDEX IF NOT EXISTS idx_messages_topic ON messages(channel, topic);
+CREATE INDEX IF NOT EXISTS idx_messages_classified_by ON messages(classified_by);
+CREATE INDEX IF NOT EXISTS idx_messages_review_status ON messages(review_status);
+CREATE INDEX IF NOT EXISTS idx_messages_help_topic ON messages(help_topic);
+
+CREATE TABLE IF NOT EXISTS threads (
+  thread_id TEXT PRIMARY KEY,
+  channel TEXT NOT NULL,
+  name TEXT,
+  first_message_at INTEGER NOT NULL,
+  last_message_at INTEGER NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_threads_message_count ON threads(message_count);
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_user ON conversation_messages(user_id, timestamp);
+
+CREATE TABLE IF NOT EXISTS pending_approvals (
+  message_id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  auto_send_at INTEGER,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_pending_approvals_auto_send ON pending_approvals(auto_send_at);
+
+CREATE TABLE IF NOT EXISTS welcome_threads (
+  thread_id TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+// Schema changes made after the tables above, applied in order. PRAGMA user_version records
+// how many have been applied.
+const MIGRATIONS: string[] = [
+  // 1: messages deleted on Discord are kept but left out of reports
+  `ALTER TABLE messages ADD COLUMN deleted_at INTEGER;
+   CREATE INDEX IF NOT EXISTS idx_messages_deleted_at ON messages(deleted_at);`,
+];
+
+/**
+ * Open node:sqlite (Node 22.5+). It's loaded on demand so the JSON backend keeps
+ * working on older Node versions.
+ */
+function openDatabase(file: string): DatabaseSync {
+  const sqlite = process.getBuiltinModule?.('node:sqlite');
+  if (!sqlite) {
+    throw new Error(`STORAGE_BACKEND=sqlite needs Node 22.5 or newer (running ${process.version})`);
+  }
+  return new sqlite.DatabaseSync(file);
+}
+
+/**
+ * SQLite storage with indexed tables for messages, threads, conversations and approvals.
+ * Full records are kept as JSON in a data column; the columns used by queries are indexed.
+ */
+export class SqliteStore implements AnalyticsStore {
+  readonly backend = 'sqlite' as const;
+
+  private db: DatabaseSync | null = null;
+  // Row IDs of messages handed out by queries, so updates can find them again
+  private rowIds = new WeakMap<TrackedMessage, number>();
+
+  constructor(private readonly file: string) {}
+
+  private get database(): DatabaseSync {
+    if (!this.db) throw new Error('SQLite store used before load()');
+    return this.db;
+  }
+
+  load(): void {
+    this.db = openDatabase(this.file);
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec(SCHEMA);
+    this.migrate();
+    this.importJsonFiles();
+  }
+
+  private migrate(): void {
+    const { user_version: version } = this.database.prepare('PRAGMA user_version').get() as { user_version: number };
+    if (version > MIGRATIONS.length) {
+      throw new Error(`${this.file} has schema version ${version}, newer than this build supports (${MIGRATIONS.length})`);
+    }
+    for (let v = version; v < MIGRATIONS.length; v++) {
+      this.transaction(() => {
+        this.database.exec(MIGRATIONS[v]!);
+        this.database.exec(`PRAGMA user_version = ${v + 1}`);
+      });
+    }
+    if (version < MIGRATIONS.length) {
+      console.log(`   🔧 Migrated ${this.file} from schema version ${version} to ${MIGRATIONS.length}`);
+    }
+  }
+
+  flush(): void {
+    // Every write goes straight to the database
+  }
+
+  private transaction(fn: () => void): void {
+    this.database.exec('BEGIN');
+    try {
+      fn();
+      this.database.exec('COMMIT');
+    } catch (error) {
+      this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.database.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.database.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value').run(key, value);
+  }
+
+  /**
+   * One-time import of the JSON files written by the json backend. The files are left in place.
+   */
+  private importJsonFiles(): void {
+    if (this.getMeta('json_imported_at')) return;
+
+    let messageCount = 0;
+    let conversationCount = 0;
+    let approvalCount = 0;
+
+    this.transaction(() => {
+      const messageData = readJsonDataFile('messages');
+      if (messageData) {
+        for (const m of messageData.messages) {
+          this.addMessage(reviveMessage(m));
+          messageCount++;
+        }
+      }
+
+      const convData = readJsonDataFile('conversations');
+      if (convData) {
+        for (const [userId, msgs] of Object.entries(convData.conversations)) {
+          this.setConversation(userId, (msgs as any[]).map(m => ({ ...m, timestamp: new Date(m.timestamp) })));
+          conversationCount++;
+        }
+      }
+
+      const approvalData = readJsonDataFile('approvals');
+      if (approvalData) {
+        this.saveApprovals(approvalData.pending, approvalData.threads);
+        approvalCount = approvalData.pending.length;
+      }
+
+      this.setMeta('json_imported_at', new Date().toISOString());
+    });
+
+    if (messageCount + conversationCount + approvalCount > 0) {
+      console.log(`   🗄️ Imported ${messageCount} messages, ${conversationCount} conversations and ${approvalCount} pending approvals from JSON into SQLite`);
+    }
+  }
+
+  private toRow(msg: TrackedMessage): SQLInputValue[] {
+    return [
+      msg.messageId ?? null,
+      msg.channel,
+      msg.channelId ?? null,
+      msg.threadId ?? null,
+      msg.topic,
+      msg.classifiedBy ?? null,
+      msg.reviewStatus ?? null,
+      msg.helpTopic ?? null,
+      new Date(msg.timestamp).getTime(),
+      msg.deletedAt ? new Date(msg.deletedAt).getTime() : null,
+      JSON.stringify(msg),
+    ];
+  }
+
+  private fromRow(row: { id: number; data: string }): TrackedMessage {
+    const msg = reviveMessage(JSON.parse(row.data));
+    this.rowIds.set(msg, row.id);
+    return msg;
+  }
+
+  addMessage(msg: TrackedMessage): void {
+    const result = this.database.prepare(`
+      INSERT INTO messages (message_id, channel, channel_id, thread_id, topic, classified_by, review_status, help_topic, timestamp, deleted_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(...this.toRow(msg));
+    this.rowIds.set(msg, Number(result.lastInsertRowid));
+
+    if (msg.threadId) {
+      const timestamp = new Date(msg.timestamp).getTime();
+      this.database.prepare(`
+        INSERT INTO threads (thread_id, channel, name, first_message_at, last_message_at, message_count)
+        VALUES (?, ?, ?, ?, ?, 1)
+        ON CONFLICT(thread_id) DO UPDATE SET
+          name = COALESCE(excluded.name, threads.name),
+          first_message_at = MIN(threads.first_message_at, excluded.first_message_at),
+          last_message_at = MAX(threads.last_message_at, excluded.last_message_at),
+          message_count = threads.message_count + 1
+      `).run(msg.threadId, msg.channel, msg.threadName ?? null, timestamp, timestamp);
+    }
+  }
+
+  updateMessage(msg: TrackedMessage): void {
+    const id = this.rowIds.get(msg);
+    if (id === undefined) {
+      console.warn(`Can't update message ${msg.messageId ?? '(no ID)'}: it wasn't loaded from the store`);
+      return;
+    }
+    this.database.prepare(`
+      UPDATE messages SET message_id = ?, channel = ?, channel_id = ?, thread_id = ?, topic = ?, classified_by = ?,
+        review_status = ?, help_topic = ?, timestamp = ?, deleted_at = ?, data = ?
+      WHERE id = ?
+    `).run(...this.toRow(msg), id);
+
+    // The message may have been deleted on Discord
+    if (msg.threadId) this.recountThreads([msg.threadId]);
+  }
+
+  // Reset thread message counts from the messages table (deleted messages don't count)
+  private recountThreads(threadIds: string[]): void {
+    const recount = this.database.prepare(`
+      UPDATE threads SET message_count = (
+        SELECT COUNT(*) FROM messages WHERE messages.thread_id = threads.thread_id AND messages.deleted_at IS NULL
+      )
+      WHERE thread_id = ?
+    `);
+    for (const threadId of threadIds) recount.run(threadId);
+  }
+
+  deleteMessages(msgs: TrackedMessage[]): void {
+    const ids = msgs.map(m => this.rowIds.get(m)).filter((id): id is number => id !== undefined);
+    const threadIds = [...new Set(msgs.map(m => m.threadId).filter((id): id is string => !!id))];
+    if (ids.length === 0) return;
+
+    this.transaction(() => {
+      const remove = this.database.prepare('DELETE FROM messages WHERE id = ?');
+      for (const id of ids) remove.run(id);
+      this.recountThreads(threadIds);
+    });
+  }
+
+  private buildWhere(query: MessageQuery): { where: string; params: SQLInputValue[] } {
+    const conditions: string[] = [];
+    const params: SQLInputValue[] = [];
+
+    if (!query.includeDeleted) {
+      conditions.push('deleted_at IS NULL');
+    }
+
+    if (query.channel !== undefined) {
+      conditions.push('channel = ?');
+      params.push(query.channel);
+    }
+    if (query.channelId !== undefined) {
+      conditions.push('channel_id = ?');
+      params.push(query.channelId);
+    }
+    if (query.topic !== undefined) {
+      conditions.push('topic = ?');
+      params.push(query.topic);
+    }
+    if (query.classifiedBy !== undefined) {
+      conditions.push('classified_by = ?');
+      params.push(query.classifiedBy);
+    }
+    if (query.reviewStatus !== undefined) {
+      conditions.push('review_status = ?');
+      params.push(query.reviewStatus);
+    }
+    if (query.helpTopics !== undefined) {
+      conditions.push(query.helpTopics.length > 0 ? `help_topic IN (${query.helpTopics.map(() => '?').join(', ')})` : '0');
+      params.push(...query.helpTopics);
+    }
+    if (query.channels !== undefined) {
+      conditions.push(query.channels.length > 0 ? `channel IN (${query.channels.map(() => '?').join(', ')})` : '0');
+      params.push(...query.channels);
+    }
+    if (query.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until !== undefined) {
+      conditions.push('timestamp < ?');
+      params.push(query.until.getTime());
+    }
+    if (query.withMessageId) {
+      conditions.push('message_id IS NOT NULL AND channel_id IS NOT NULL');
+    }
+    if (query.missingAuthorId) {
+      conditions.push("json_extract(data, '$.authorId') IS NULL");
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  findMessages(query: MessageQuery = {}): TrackedMessage[] {
+    const { where, params } = this.buildWhere(query);
+    const limit = query.limit !== undefined ? 'LIMIT ?' : '';
+    if (query.limit !== undefined) params.push(query.limit);
+
+    const rows = this.database
+      .prepare(`SELECT id, data FROM messages ${where} ORDER BY timestamp ${query.newestFirst ? 'DESC' : 'ASC'}, id ${query.newestFirst ? 'DESC' : 'ASC'} ${limit}`)
+      .all(...params) as { id: number; data: string }[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  countMessages(query: MessageQuery = {}): number {
+    const { where, params } = this.buildWhere(query);
+    const row = this.database.prepare(`SELECT COUNT(*) AS count FROM messages ${where}`).get(...params) as { count: number };
+    return Number(row.count);
+  }
+
+  getMessageById(messageId: string): TrackedMessage | undefined {
+    const row = this.database
+      .prepare('SELECT id, data FROM messages WHERE message_id = ? ORDER BY id LIMIT 1')
+      .get(messageId) as { id: number; data: string } | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  getTopicCounts(filter: AnalyticsFilter = {}): TopicCountRow[] {
+    const { where, params } = this.buildWhere(filter);
+    const rows = this.database
+      .prepare(`SELECT channel, topic, COUNT(*) AS count FROM messages ${where} GROUP BY channel, topic`)
+      .all(...params) as { channel: string; topic: string; count: number }[];
+    return rows.map(r => ({ channel: r.channel, topic: r.topic, count: Number(r.count) }));
+  }
+
+  getHelpTopicCounts(filter: AnalyticsFilter = {}): { helpTopic: string; count: number }[] {
+    // The WHERE clause always has the deleted_at condition, so more can be added with AND
+    const { where, params } = this.buildWhere({ ...filter, channel: 'help' });
+    const rows = this.database
+      .prepare(`SELECT help_topic, COUNT(*) AS count FROM messages ${where} AND help_topic IS NOT NULL GROUP BY help_topic ORDER BY MIN(id)`)
+      .all(...params) as { help_topic: string; count: number }[];
+    return rows.map(r => ({ helpTopic: r.help_topic, count: Number(r.count) }));
+  }
+
+  getTopThreads(minReplies: number, limit: number, filter: AnalyticsFilter = {}): ThreadReplyCount[] {
+    let rows: { thread_id: string; name: string; message_count: number }[];
+
+    if (filter.since === undefined && filter.until === undefined) {
+      // All-time counts are kept up to date in the threads table
+      const channels = filter.channels;
+      const channelCondition = channels ? `AND channel IN (${channels.map(() => '?').join(', ') || 'NULL'})` : '';
+      rows = this.database.prepare(`
+        SELECT thread_id, name, message_count FROM threads
+        WHERE name IS NOT NULL AND message_count >= ? ${channelCondition}
+        ORDER BY message_count DESC
+        LIMIT ?
+      `).all(minReplies, ...(channels ?? []), limit) as typeof rows;
+    } else {
+      // The WHERE clause always has the deleted_at condition, so more can be added with AND
+      const { where, params } = this.buildWhere(filter);
+      rows = this.database.prepare(`
+        SELECT c.thread_id, t.name, c.message_count
+        FROM (
+          SELECT thread_id, COUNT(*) AS message_count FROM messages
+          ${where} AND thread_id IS NOT NULL
+          GROUP BY thread_id
+          HAVING COUNT(*) >= ?
+        ) c
+        JOIN threads t ON t.thread_id = c.thread_id
+        WHERE t.name IS NOT NULL
+        ORDER BY c.message_count DESC
+        LIMIT ?
+      `).all(...params, minReplies, limit) as typeof rows;
+    }
+
+    return rows.map(r => ({ threadId: r.thread_id, threadName: r.name, replyCount: Number(r.message_count) }));
+  }
+
+  clearMessages(): void {
+    this.transaction(() => {
+      this.database.exec('DELETE FROM messages; DELETE FROM threads;');
+    });
+  }
+
+  getConversation(userId: string): ConversationMessage[] {
+    const rows = this.database
+      .prepare('SELECT role, content, timestamp FROM conversation_messages WHERE user_id = ? ORDER BY timestamp, id')
+      .all(userId) as { role: 'user' | 'assistant'; content: string; timestamp: number }[];
+    return rows.map(r => ({ role: r.role, content: r.content, timestamp: new Date(Number(r.timestamp)) }));
+  }
+
+  setConversation(userId: string, history: ConversationMessage[]): void {
+    const write = () => {
+      this.database.prepare('DELETE FROM conversation_messages WHERE user_id = ?').run(userId);
+      const insert = this.database.prepare('INSERT INTO conversation_messages (user_id, role, content, timestamp) VALUES (?, ?, ?, ?)');
+      for (const m of history) {
+        insert.run(userId, m.role, m.content, new Date(m.timestamp).getTime());
+      }
+    };
+    // Already inside a transaction during the JSON import
+    if (this.database.isTransaction) write();
+    else this.transaction(write);
+  }
+
+  deleteConversation(userId: string): void {
+    this.database.prepare('DELETE FROM conversation_messages WHERE user_id = ?').run(userId);
+  }
+
+  loadApprovals(): StoredApprovals {
+    const pending = this.database.prepare('SELECT data FROM pending_approvals ORDER BY created_at').all() as { data: string }[];
+    const threads = this.database.prepare('SELECT data FROM welcome_threads ORDER BY created_at').all() as { data: string }[];
+    return {
+      pending: pending.map(r => JSON.parse(r.data)),
+      threads: threads.map(r => JSON.parse(r.data)),
+    };
+  }
+
+  saveApprovals(pending: PendingApproval[], threads: WelcomeThread[]): void {
+    const write = () => {
+      this.database.exec('DELETE FROM pending_approvals; DELETE FROM welcome_threads;');
+      const insertPending = this.database.prepare('INSERT INTO pending_approvals (message_id, kind, created_at, auto_send_at, data) VALUES (?, ?, ?, ?, ?)');
+      for (const p of pending) {
+        insertPending.run(
+          p.messageId,
+          p.kind ?? 'intro',
+          new Date(p.createdAt).getTime(),
+          p.autoSendAt ? new Date(p.autoSendAt).getTime() : null,
+          JSON.stringify(p)
+        );
+      }
+      const insertThread = this.database.prepare('INSERT INTO welcome_threads (thread_id, created_at, data) VALUES (?, ?, ?)');
+      for (const t of threads) {
+        insertThread.run(t.threadId, new Date(t.createdAt).getTime(), JSON.stringify(t));
+      }
+    };
+    if (this.database.isTransaction) write();
+    else this.transaction(write);
+  }
+}
@@ -48,3 +48,5 @@ echo "🦙 Ollama setup complete!"
 echo "   Model: $MODEL"
 echo "   API: http://127.0.0.1:$OLLAMA_PORT"
 echo "   Logs: /tmp/ollama.log"
+echo ""
+echo "   To route a task to it, set e.g. LLM_CLASSIFICATION_MODEL=ollama:$MODEL in .env.local"
@@ -0,0 +1,392 @@
+import * as path from "path";
+import type { TrackedMessage, ConversationMessage, ClassificationSource, ReviewStatus } from "./analytics";
+import type { PendingApproval, WelcomeThread } from "./approvals";
+import type { Topic } from "./taxonomy";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+import { SqliteStore } from "./sqlite-storage";
+
+// Where analytics, conversations and approvals are persisted (STORAGE_BACKEND, defaults to json)
+export type StorageBackend = 'json' | 'sqlite';
+
+// Time window and channels for reports (all optional, combined with AND)
+export interface AnalyticsFilter {
+  since?: Date;
+  until?: Date; // Exclusive
+  channels?: string[]; // Channel names
+}
+
+// Filters for message queries (all optional, combined with AND)
+export interface MessageQuery extends AnalyticsFilter {
+  channel?: string;
+  channelId?: string; // Discord channel (thread ID for forum posts)
+  topic?: Topic;
+  classifiedBy?: ClassificationSource;
+  reviewStatus?: ReviewStatus;
+  helpTopics?: string[]; // Exact (raw) help topic values
+  withMessageId?: boolean; // Only messages that can be fetched from Discord
+  missingAuthorId?: boolean; // Only records from before author IDs were stored
+  includeDeleted?: boolean; // Messages deleted on Discord are left out unless set
+  newestFirst?: boolean; // By message timestamp, default is oldest first
+  limit?: number;
+}
+
+export interface TopicCountRow {
+  channel: string;
+  topic: Topic;
+  count: number;
+}
+
+export interface ThreadReplyCount {
+  threadId: string;
+  threadName: string;
+  replyCount: number;
+}
+
+// Approval data as stored (approvals.ts fills in defaults for older records)
+export interface StoredApprovals {
+  pending: any[];
+  threads: any[];
+}
+
+/**
+ * Persistence for analytics messages, conversations and pending approvals.
+ * Messages returned by queries can be changed and written back with updateMessage.
+ */
+export interface AnalyticsStore {
+  readonly backend: StorageBackend;
+  load(): void;
+  flush(): void; // Write anything still waiting on a debounced save
+
+  addMessage(msg: TrackedMessage): void;
+  updateMessage(msg: TrackedMessage): void;
+  deleteMessages(msgs: TrackedMessage[]): void;
+  findMessages(query?: MessageQuery): TrackedMessage[];
+  countMessages(query?: MessageQuery): number;
+  getMessageById(messageId: string): TrackedMessage | undefined;
+  getTopicCounts(filter?: AnalyticsFilter): TopicCountRow[];
+  getHelpTopicCounts(filter?: AnalyticsFilter): { helpTopic: string; count: number }[];
+  getTopThreads(minReplies: number, limit: number, filter?: AnalyticsFilter): ThreadReplyCount[];
+  clearMessages(): void;
+
+  getConversation(userId: string): ConversationMessage[];
+  setConversation(userId: string, history: ConversationMessage[]): void;
+  deleteConversation(userId: string): void;
+
+  loadApprovals(): StoredApprovals;
+  saveApprovals(pending: PendingApproval[], threads: WelcomeThread[]): void;
+}
+
+// Persistence file paths for the JSON backend
+const DATA_FILE = path.join(process.cwd(), 'analytics-data.json');
+const CONVERSATIONS_FILE = path.join(process.cwd(), 'conversations-data.json');
+const APPROVALS_FILE = path.join(process.cwd(), 'pending-approvals-data.json');
+
+export const JSON_DATA_FILES = { messages: DATA_FILE, conversations: CONVERSATIONS_FILE, approvals: APPROVALS_FILE };
+
+// Schema versions and migrations for each JSON data file
+const JSON_SCHEMAS: Record<keyof typeof JSON_DATA_FILES, JsonFileSchema> = {
+  messages: {
+    version: 1,
+    migrations: [
+      // v0 -> v1: records from before the keyword fallback were all LLM-labeled
+      data => ({
+        ...data,
+        messages: (data.messages || []).map((m: any) => ({ ...m, classifiedBy: m.classifiedBy ?? 'llm' })),
+      }),
+    ],
+    backups: 3,
+  },
+  conversations: {
+    version: 1,
+    migrations: [data => ({ conversations: data.conversations || {} })],
+    backups: 3,
+  },
+  approvals: {
+    version: 1,
+    migrations: [data => ({ pending: data.pending || [], threads: data.threads || [] })],
+    backups: 3,
+  },
+};
+
+/**
+ * Read one of the JSON data files (migrated to the current schema, recovered from a
+ * backup if the file is corrupt). Returns undefined when the file doesn't exist.
+ */
+export function readJsonDataFile(kind: keyof typeof JSON_DATA_FILES): any | undefined {
+  return readVersionedJsonFile(JSON_DATA_FILES[kind], JSON_SCHEMAS[kind]);
+}
+
+/**
+ * Turn a stored message record back into a TrackedMessage (dates are strings in JSON)
+ */
+export function reviveMessage(raw: any): TrackedMessage {
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+    deletedAt: raw.deletedAt ? new Date(raw.deletedAt) : undefined,
+    editHistory: raw.editHistory?.map((e: any) => ({ ...e, replacedAt: new Date(e.replacedAt) })),
+  };
+}
+
+/**
+ * Check a message against a query (shared by the JSON backend's scans)
+ */
+function matchesQuery(m: TrackedMessage, query: MessageQuery): boolean {
+  if (!query.includeDeleted && m.deletedAt) return false;
+  if (query.channel !== undefined && m.channel !== query.channel) return false;
+  if (query.channelId !== undefined && m.channelId !== query.channelId) return false;
+  if (query.topic !== undefined && m.topic !== query.topic) return false;
+  if (query.classifiedBy !== undefined && m.classifiedBy !== query.classifiedBy) return false;
+  if (query.reviewStatus !== undefined && m.reviewStatus !== query.reviewStatus) return false;
+  if (query.helpTopics !== undefined && (!m.helpTopic || !query.helpTopics.includes(m.helpTopic))) return false;
+  if (query.channels !== undefined && !query.channels.includes(m.channel)) return false;
+  if (query.since !== undefined && m.timestamp < query.since) return false;
+  if (query.until !== undefined && m.timestamp >= query.until) return false;
+  if (query.withMessageId && !(m.messageId && m.channelId)) return false;
+  if (query.missingAuthorId && m.authorId !== undefined) return false;
+  return true;
+}
+
+/**
+ * The original storage: everything in memory, written to JSON files
+ */
+class JsonStore implements AnalyticsStore {
+  readonly backend = 'json' as const;
+
+  private messages: TrackedMessage[] = [];
+  private byMessageId = new Map<string, TrackedMessage>();
+  private conversations = new Map<string, ConversationMessage[]>();
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private convSaveTimeout: NodeJS.Timeout | null = null;
+  // Files that failed to load are never saved over, so nothing is lost until someone looks
+  private loadFailed = new Set<string>();
+
+  load(): void {
+    const messageData = this.readDataFile('messages');
+    if (messageData) {
+      this.messages = messageData.messages.map(reviveMessage);
+      this.indexMessages();
+    }
+
+    const convData = this.readDataFile('conversations');
+    if (convData) {
+      for (const [userId, msgs] of Object.entries(convData.conversations || {})) {
+        const parsedMsgs = (msgs as any[]).map((m: any) => ({
+          ...m,
+          timestamp: new Date(m.timestamp),
+        }));
+        this.conversations.set(userId, parsedMsgs);
+      }
+      console.log(`   💬 Loaded ${this.conversations.size} conversation histories`);
+    }
+  }
+
+  // Index by Discord message ID (the first record wins if older data has duplicates)
+  private indexMessages(): void {
+    this.byMessageId.clear();
+    for (const m of this.messages) {
+      if (m.messageId && !this.byMessageId.has(m.messageId)) this.byMessageId.set(m.messageId, m);
+    }
+  }
+
+  /**
+   * Read a data file, marking it as failed (and logging) if it can't be used
+   */
+  private readDataFile(kind: keyof typeof JSON_DATA_FILES): any | undefined {
+    try {
+      return readJsonDataFile(kind);
+    } catch (error) {
+      this.loadFailed.add(JSON_DATA_FILES[kind]);
+      console.error(`Failed to load ${path.basename(JSON_DATA_FILES[kind])}, it won't be saved over until fixed:`, error);
+      return undefined;
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+      this.saveData();
+    }
+    if (this.convSaveTimeout) {
+      clearTimeout(this.convSaveTimeout);
+      this.convSaveTimeout = null;
+      this.saveConversations();
+    }
+  }
+
+  private saveData(): void {
+    if (this.loadFailed.has(DATA_FILE)) {
+      console.error(`Not saving ${path.basename(DATA_FILE)}: it failed to load`);
+      return;
+    }
+    try {
+      writeVersionedJsonFile(DATA_FILE, JSON_SCHEMAS.messages, { messages: this.messages });
+    } catch (error) {
+      console.error('Failed to save data:', error);
+    }
+  }
+
+  private saveConversations(): void {
+    if (this.loadFailed.has(CONVERSATIONS_FILE)) {
+      console.error(`Not saving ${path.basename(CONVERSATIONS_FILE)}: it failed to load`);
+      return;
+    }
+    try {
+      const convObj: Record<string, ConversationMessage[]> = {};
+      this.conversations.forEach((msgs, userId) => {
+        convObj[userId] = msgs;
+      });
+      writeVersionedJsonFile(CONVERSATIONS_FILE, JSON_SCHEMAS.conversations, { conversations: convObj });
+    } catch (error) {
+      console.error('Failed to save conversations:', error);
+    }
+  }
+
+  // Debounce saves to avoid writing too frequently
+  private debouncedSave(): void {
+    if (this.saveTimeout) clearTimeout(this.saveTimeout);
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.saveData();
+    }, 5000); // Save 5 seconds after last change
+  }
+
+  private debouncedSaveConversations(): void {
+    if (this.convSaveTimeout) clearTimeout(this.convSaveTimeout);
+    this.convSaveTimeout = setTimeout(() => {
+      this.convSaveTimeout = null;
+      this.saveConversations();
+    }, 2000);
+  }
+
+  addMessage(msg: TrackedMessage): void {
+    this.messages.push(msg);
+    if (msg.messageId && !this.byMessageId.has(msg.messageId)) this.byMessageId.set(msg.messageId, msg);
+    this.debouncedSave();
+  }
+
+  updateMessage(_msg: TrackedMessage): void {
+    // Queries return the stored objects themselves, so the change is already in memory
+    this.debouncedSave();
+  }
+
+  deleteMessages(msgs: TrackedMessage[]): void {
+    const deleted = new Set(msgs);
+    this.messages = this.messages.filter(m => !deleted.has(m));
+    this.indexMessages();
+    this.debouncedSave();
+  }
+
+  findMessages(query: MessageQuery = {}): TrackedMessage[] {
+    // Stable sort, so messages with the same timestamp stay in insertion order
+    const results = this.messages
+      .filter(m => matchesQuery(m, query))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (query.newestFirst) results.reverse();
+    return query.limit !== undefined ? results.slice(0, query.limit) : results;
+  }
+
+  countMessages(query: MessageQuery = {}): number {
+    return this.messages.filter(m => matchesQuery(m, query)).length;
+  }
+
+  getMessageById(messageId: string): TrackedMessage | undefined {
+    return this.byMessageId.get(messageId);
+  }
+
+  getTopicCounts(filter: AnalyticsFilter = {}): TopicCountRow[] {
+    const counts = new Map<string, TopicCountRow>();
+    for (const m of this.messages) {
+      if (!matchesQuery(m, filter)) continue;
+      const key = `${m.channel}\n${m.topic}`;
+      const row = counts.get(key) ?? { channel: m.channel, topic: m.topic, count: 0 };
+      row.count++;
+      counts.set(key, row);
+    }
+    return Array.from(counts.values());
+  }
+
+  getHelpTopicCounts(filter: AnalyticsFilter = {}): { helpTopic: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const m of this.messages) {
+      if (m.channel !== 'help' || !m.helpTopic || !matchesQuery(m, filter)) continue;
+      counts.set(m.helpTopic, (counts.get(m.helpTopic) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).map(([helpTopic, count]) => ({ helpTopic, count }));
+  }
+
+  getTopThreads(minReplies: number, limit: number, filter: AnalyticsFilter = {}): ThreadReplyCount[] {
+    // Count messages per thread
+    const threadCounts = new Map<string, { name: string; count: number }>();
+    for (const msg of this.messages) {
+      if (msg.threadId && msg.threadName && matchesQuery(msg, filter)) {
+        const current = threadCounts.get(msg.threadId);
+        if (current) {
+          current.count++;
+        } else {
+          threadCounts.set(msg.threadId, { name: msg.threadName, count: 1 });
+        }
+      }
+    }
+
+    // Filter by minReplies and sort by count
+    return Array.from(threadCounts.entries())
+      .filter(([_, data]) => data.count >= minReplies)
+      .map(([threadId, data]) => ({ threadId, threadName: data.name, replyCount: data.count }))
+      .sort((a, b) => b.replyCount - a.replyCount)
+      .slice(0, limit);
+  }
+
+  clearMessages(): void {
+    this.messages.length = 0;
+    this.byMessageId.clear();
+    this.debouncedSave();
+  }
+
+  getConversation(userId: string): ConversationMessage[] {
+    return this.conversations.get(userId) || [];
+  }
+
+  setConversation(userId: string, history: ConversationMessage[]): void {
+    this.conversations.set(userId, history);
+    this.debouncedSaveConversations();
+  }
+
+  deleteConversation(userId: string): void {
+    this.conversations.delete(userId);
+    this.debouncedSaveConversations();
+  }
+
+  loadApprovals(): StoredApprovals {
+    const data = this.readDataFile('approvals');
+    return data ? { pending: data.pending, threads: data.threads } : { pending: [], threads: [] };
+  }
+
+  saveApprovals(pending: PendingApproval[], threads: WelcomeThread[]): void {
+    if (this.loadFailed.has(APPROVALS_FILE)) {
+      throw new Error(`Not saving ${path.basename(APPROVALS_FILE)}: it failed to load`);
+    }
+    writeVersionedJsonFile(APPROVALS_FILE, JSON_SCHEMAS.approvals, { pending, threads });
+  }
+}
+
+let store: AnalyticsStore | null = null;
+
+/**
+ * Get the configured store (created on first use so it picks up env loaded by dotenv)
+ */
+export function getStore(): AnalyticsStore {
+  if (store) return store;
+
+  const backend = (process.env.STORAGE_BACKEND || 'json').trim().toLowerCase();
+  if (backend === 'sqlite') {
+    store = new SqliteStore(process.env.SQLITE_PATH || path.join(process.cwd(), 'discord-agent.db'));
+  } else {
+    if (backend !== 'json') {
+      console.warn(`Unknown STORAGE_BACKEND "${backend}", using json`);
+    }
+    store = new JsonStore();
+  }
+  return store;
+}
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Topic categories for message classification (ids from topics.json)
+export type Topic = string;
+
+// One category in topics.json
+export interface TopicDefinition {
+  id: Topic;
+  label: string; // Plural, for reports ("Bug Reports")
+  emoji: string;
+  definition: string; // Shown to the classifier
+  examples: string[]; // Example messages shown to the classifier
+  keywords?: string[]; // Extra words/phrases for the offline keyword classifier
+}
+
+interface TaxonomyConfig {
+  fallbackTopic: Topic; // Used when nothing else fits (and for empty messages)
+  topics: TopicDefinition[];
+  channels: Record<string, Topic[]>; // Channels limited to a subset of topics
+  migrations: Record<string, Topic>; // Retired label -> the label to use instead
+}
+
+// Read at runtime so the taxonomy can change without a rebuild (TOPICS_FILE overrides the path)
+function getTopicsFile(): string {
+  return process.env.TOPICS_FILE || path.join(process.cwd(), 'topics.json');
+}
+
+let taxonomy: TaxonomyConfig | null = null;
+
+/**
+ * Validate topics.json, dropping anything malformed
+ */
+function parseTaxonomy(raw: any): TaxonomyConfig {
+  const topics: TopicDefinition[] = [];
+  for (const t of Array.isArray(raw?.topics) ? raw.topics : []) {
+    if (typeof t?.id !== 'string' || !t.id || topics.some(existing => existing.id === t.id)) {
+      console.warn(`Skipping invalid or duplicate topic in topics.json: ${JSON.stringify(t?.id)}`);
+      continue;
+    }
+    topics.push({
+      id: t.id,
+      label: typeof t.label === 'string' ? t.label : t.id,
+      emoji: typeof t.emoji === 'string' ? t.emoji : '🏷️',
+      definition: typeof t.definition === 'string' ? t.definition : '',
+      examples: Array.isArray(t.examples) ? t.examples.filter((e: unknown) => typeof e === 'string') : [],
+      keywords: Array.isArray(t.keywords) ? t.keywords.filter((k: unknown) => typeof k === 'string') : undefined,
+    });
+  }
+  if (topics.length === 0) {
+    throw new Error('topics.json must define at least one topic');
+  }
+
+  const ids = new Set(topics.map(t => t.id));
+  const fallbackTopic = ids.has(raw.fallbackTopic) ? raw.fallbackTopic : topics[0]!.id;
+
+  const channels: Record<string, Topic[]> = {};
+  for (const [channel, subset] of Object.entries(raw.channels || {})) {
+    const valid = (Array.isArray(subset) ? subset : []).filter((id: unknown): id is Topic => ids.has(id as string));
+    if (valid.length > 0) channels[channel] = valid;
+  }
+
+  const migrations: Record<string, Topic> = {};
+  for (const [from, to] of Object.entries(raw.migrations || {})) {
+    if (ids.has(to as string)) migrations[from] = to as Topic;
+  }
+
+  return { fallbackTopic, topics, channels, migrations };
+}
+
+/**
+ * Read and validate topics.json. Called at startup so a missing or broken file stops the
+ * bot before anything is classified; later calls use the loaded taxonomy.
+ */
+export function loadTaxonomy(): void {
+  const file = getTopicsFile();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  taxonomy = parseTaxonomy(raw);
+  console.log(`   🏷️ Loaded ${taxonomy.topics.length} topics from ${path.basename(file)}`);
+}
+
+function getTaxonomy(): TaxonomyConfig {
+  if (!taxonomy) loadTaxonomy();
+  return taxonomy!;
+}
+
+/**
+ * Get every topic in the taxonomy, in config order
+ */
+export function getTopics(): TopicDefinition[] {
+  return getTaxonomy().topics;
+}
+
+/**
+ * Get the topic ids a channel's messages can be classified as
+ */
+export function getTopicsForChannel(channel?: string): Topic[] {
+  const { topics, channels } = getTaxonomy();
+  return (channel && channels[channel]) || topics.map(t => t.id);
+}
+
+export function getFallbackTopic(): Topic {
+  return getTaxonomy().fallbackTopic;
+}
+
+export function isValidTopic(topic: string): topic is Topic {
+  return getTaxonomy().topics.some(t => t.id === topic);
+}
+
+export function getTopicDefinition(topic: Topic): TopicDefinition | undefined {
+  return getTaxonomy().topics.find(t => t.id === topic);
+}
+
+export function getTopicLabel(topic: Topic): string {
+  return getTopicDefinition(topic)?.label ?? topic;
+}
+
+export function getTopicEmoji(topic: Topic): string {
+  return getTopicDefinition(topic)?.emoji ?? '🏷️';
+}
+
+/**
+ * Map a stored label that's no longer in the taxonomy to its replacement.
+ * Returns undefined when the label is retired with no configured replacement.
+ */
+export function migrateTopic(topic: string): Topic | undefined {
+  if (isValidTopic(topic)) return topic;
+  return getTaxonomy().migrations[topic];
+}
+
+/**
+ * Build the category definitions and examples for classifier prompts
+ */
+export function buildTopicDefinitions(allowed: Topic[] = getTopicsForChannel()): string {
+  const topics = allowed
+    .map(id => getTopicDefinition(id))
+    .filter((t): t is TopicDefinition => !!t);
+
+  return `VALID CATEGORIES (you MUST respond with one of these exact values):
+${topics.map(t => `- ${t.id}`).join('\n')}
+
+CATEGORY DEFINITIONS:
+${topics.map(t => `- ${t.id}: ${t.definition}`).join('\n')}
+
+EXAMPLES:
+${topics.flatMap(t => t.examples.map(e => `"${e}" -> ${t.id}`)).join('\n')}`;
+}
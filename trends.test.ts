@@ -0,0 +1,68 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { detectSpikes } from "./trends";
+import { getStore } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-16T12:00:00Z');
+
+let nextId = 1;
+
+// Add `count` messages to the store, `daysAgo` days before NOW (0 is the last 24h)
+function addMessages(count: number, daysAgo: number, fields: { channel?: string; topic?: string; helpTopic?: string } = {}): void {
+  for (let i = 0; i < count; i++) {
+    getStore().addMessage({
+      content: `message ${nextId}`,
+      author: 'someone',
+      channel: fields.channel ?? 'general',
+      topic: fields.topic ?? 'bug-report',
+      helpTopic: fields.helpTopic,
+      timestamp: new Date(NOW.getTime() - daysAgo * DAY_MS - (i + 1) * 60 * 1000),
+      messageId: String(nextId++),
+      channelId: 'c1',
+    });
+  }
+}
+
+describe('detectSpikes', () => {
+  beforeEach(() => getStore().clearMessages());
+
+  test('flags a topic well above its usual daily volume', () => {
+    for (let day = 1; day <= 14; day++) addMessages(1, day);
+    addMessages(12, 0);
+
+    const spikes = detectSpikes(NOW);
+    assert.equal(spikes.length, 1);
+    assert.equal(spikes[0]!.key, 'topic:bug-report');
+    assert.equal(spikes[0]!.count, 12);
+    assert.equal(spikes[0]!.baselineMean, 1);
+    assert.equal(spikes[0]!.examples.length, 3);
+  });
+
+  test('ignores steady volume', () => {
+    for (let day = 0; day <= 14; day++) addMessages(6, day);
+    assert.deepEqual(detectSpikes(NOW), []);
+  });
+
+  test('ignores jumps below the minimum message count', () => {
+    for (let day = 1; day <= 14; day++) addMessages(1, day, { topic: 'praise' });
+    addMessages(4, 0, { topic: 'praise' });
+    assert.deepEqual(detectSpikes(NOW), []);
+  });
+
+  test('needs enough baseline history before alerting', () => {
+    for (let day = 1; day <= 3; day++) addMessages(1, day);
+    addMessages(20, 0);
+    assert.deepEqual(detectSpikes(NOW), []);
+  });
+
+  test('tracks help topics separately from their channel topic', () => {
+    for (let day = 1; day <= 14; day++) addMessages(3, day, { channel: 'help', topic: 'support-request', helpTopic: 'vscode setup' });
+    addMessages(3, 0, { channel: 'help', topic: 'support-request', helpTopic: 'vscode setup' });
+    addMessages(10, 0, { channel: 'help', topic: 'support-request', helpTopic: 'ssh timeout' });
+
+    const keys = detectSpikes(NOW).map(spike => spike.key);
+    assert.ok(keys.includes('help:ssh timeout'), keys.join(', '));
+    assert.ok(!keys.some(key => key.includes('vscode')), keys.join(', '));
+  });
+});
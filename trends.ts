@@ -0,0 +1,373 @@
+import * as path from "path";
+import { readVersionedJsonFile, writeVersionedJsonFile, type JsonFileSchema } from "./json-file";
+import { getStore, type AnalyticsFilter } from "./storage";
+import { getHelpClusterForTopic, normalizeHelpPhrase } from "./help-clusters";
+import { getTopicLabel, getTopicEmoji, type Topic } from "./taxonomy";
+import type { TrackedMessage } from "./analytics";
+
+export type TrendKind = 'topic' | 'helpTopic';
+
+// How one topic or help topic cluster changed between two consecutive windows
+export interface TrendRow {
+  key: string; // "topic:<id>" or "help:<cluster id or phrase>"
+  kind: TrendKind;
+  label: string;
+  current: number;
+  previous: number;
+  delta: number;
+  change: number | null; // Relative change (0.5 = +50%), null when there was nothing before
+}
+
+export interface TrendReport {
+  current: AnalyticsFilter;
+  previous: AnalyticsFilter;
+  topics: TrendRow[];
+  helpTopics: TrendRow[];
+}
+
+// A topic or help topic cluster far above its usual daily volume
+export interface Spike {
+  key: string;
+  kind: TrendKind;
+  label: string;
+  count: number; // Messages in the spike window
+  baselineMean: number; // Average per window over the baseline days
+  ratio: number; // count / baselineMean (count when the baseline is empty)
+  zScore: number;
+  since: Date;
+  until: Date;
+  examples: TrackedMessage[]; // Newest first, one per thread
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Default window for week-over-week reports
+const TREND_WINDOW_MS = 7 * DAY_MS;
+
+// Spike detection compares the last 24h with the same-sized windows over the 14 days before it
+const SPIKE_WINDOW_MS = DAY_MS;
+const BASELINE_WINDOWS = 14;
+// Too little history makes every topic look like a spike
+const MIN_BASELINE_WINDOWS_WITH_DATA = 7;
+
+// All three must hold: enough messages to matter, a big jump, and well outside normal variation
+const SPIKE_MIN_MESSAGES = 5;
+const SPIKE_MIN_RATIO = 3;
+const SPIKE_MIN_Z_SCORE = 3;
+
+// Don't alert about the same topic again while it's still elevated
+const ALERT_COOLDOWN_MS = DAY_MS;
+
+const SPIKE_EXAMPLES = 3;
+
+// Persistence file path
+const ALERTS_FILE = path.join(process.cwd(), 'trend-alerts-data.json');
+
+const ALERTS_SCHEMA: JsonFileSchema = {
+  version: 1,
+  migrations: [data => ({ alerts: data.alerts || {} })],
+  backups: 3,
+};
+
+// Set when the file exists but couldn't be read, so saving doesn't replace it with empty data
+let loadFailed = false;
+
+// Spike key -> when it was last alerted
+const lastAlerted = new Map<string, Date>();
+
+/**
+ * Load when each spike was last alerted, so a restart doesn't repeat alerts
+ */
+export function loadTrendAlerts(): void {
+  try {
+    const data = readVersionedJsonFile(ALERTS_FILE, ALERTS_SCHEMA);
+    if (!data) return;
+
+    for (const [key, alertedAt] of Object.entries(data.alerts || {})) {
+      lastAlerted.set(key, new Date(alertedAt as string));
+    }
+  } catch (error) {
+    loadFailed = true;
+    console.error(`Failed to load ${path.basename(ALERTS_FILE)}, it won't be saved over until fixed:`, error);
+  }
+}
+
+function saveTrendAlerts(): void {
+  if (loadFailed) return;
+  try {
+    // Entries past the cooldown don't matter any more
+    for (const [key, alertedAt] of lastAlerted) {
+      if (Date.now() - alertedAt.getTime() > ALERT_COOLDOWN_MS) lastAlerted.delete(key);
+    }
+    writeVersionedJsonFile(ALERTS_FILE, ALERTS_SCHEMA, { alerts: Object.fromEntries(lastAlerted) });
+  } catch (error) {
+    console.error('Failed to save trend alerts:', error);
+  }
+}
+
+interface KeyCount {
+  kind: TrendKind;
+  label: string;
+  count: number;
+  helpTopics: string[]; // Raw help topic values in a help topic cluster
+}
+
+/**
+ * Count messages per topic and per help topic cluster in a window
+ */
+function countByKey(filter: AnalyticsFilter): Map<string, KeyCount> {
+  const store = getStore();
+  const counts = new Map<string, KeyCount>();
+
+  for (const { topic, count } of store.getTopicCounts(filter)) {
+    const key = `topic:${topic}`;
+    const entry = counts.get(key) ?? { kind: 'topic', label: getTopicLabel(topic), count: 0, helpTopics: [] };
+    entry.count += count;
+    counts.set(key, entry);
+  }
+
+  for (const { helpTopic, count } of store.getHelpTopicCounts(filter)) {
+    const cluster = getHelpClusterForTopic(helpTopic);
+    const key = `help:${cluster?.id ?? normalizeHelpPhrase(helpTopic)}`;
+    const entry = counts.get(key) ?? { kind: 'helpTopic', label: cluster?.name ?? normalizeHelpPhrase(helpTopic), count: 0, helpTopics: [] };
+    entry.count += count;
+    entry.helpTopics.push(helpTopic);
+    counts.set(key, entry);
+  }
+
+  return counts;
+}
+
+/**
+ * Compare a window with the one of the same length just before it. Without a
+ * `since`, the window is the last 7 days.
+ */
+export function getTrends(filter: AnalyticsFilter = {}, now: Date = new Date()): TrendReport {
+  const until = filter.until ?? now;
+  const since = filter.since ?? new Date(until.getTime() - TREND_WINDOW_MS);
+  const length = until.getTime() - since.getTime();
+
+  const current: AnalyticsFilter = { ...filter, since, until };
+  const previous: AnalyticsFilter = { ...filter, since: new Date(since.getTime() - length), until: since };
+  const currentCounts = countByKey(current);
+  const previousCounts = countByKey(previous);
+
+  const rows: TrendRow[] = [];
+  for (const key of new Set([...currentCounts.keys(), ...previousCounts.keys()])) {
+    const entry = (currentCounts.get(key) ?? previousCounts.get(key))!;
+    const curr = currentCounts.get(key)?.count ?? 0;
+    const prev = previousCounts.get(key)?.count ?? 0;
+    rows.push({
+      key,
+      kind: entry.kind,
+      label: entry.label,
+      current: curr,
+      previous: prev,
+      delta: curr - prev,
+      change: prev > 0 ? (curr - prev) / prev : null,
+    });
+  }
+  rows.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.current - a.current);
+
+  return {
+    current,
+    previous,
+    topics: rows.filter(r => r.kind === 'topic'),
+    helpTopics: rows.filter(r => r.kind === 'helpTopic'),
+  };
+}
+
+/**
+ * Find topics and help topic clusters whose last 24h is far above their recent daily
+ * volume. The noise estimate is the larger of the baseline's standard deviation and its
+ * Poisson spread, so a quiet topic needs a real jump before it counts.
+ */
+export function detectSpikes(now: Date = new Date()): Spike[] {
+  const since = new Date(now.getTime() - SPIKE_WINDOW_MS);
+  const current = countByKey({ since, until: now });
+
+  // Count each baseline window once, then look up every key in them
+  const baseline: Map<string, KeyCount>[] = [];
+  for (let i = 1; i <= BASELINE_WINDOWS; i++) {
+    const windowUntil = new Date(since.getTime() - (i - 1) * SPIKE_WINDOW_MS);
+    baseline.push(countByKey({ since: new Date(windowUntil.getTime() - SPIKE_WINDOW_MS), until: windowUntil }));
+  }
+  if (baseline.filter(counts => counts.size > 0).length < MIN_BASELINE_WINDOWS_WITH_DATA) return [];
+
+  const spikes: Spike[] = [];
+  for (const [key, entry] of current) {
+    if (entry.count < SPIKE_MIN_MESSAGES) continue;
+
+    const history = baseline.map(counts => counts.get(key)?.count ?? 0);
+    const mean = history.reduce((a, b) => a + b, 0) / history.length;
+    const stdDev = Math.sqrt(history.reduce((sum, c) => sum + (c - mean) ** 2, 0) / history.length);
+    const noise = Math.max(stdDev, Math.sqrt(Math.max(mean, 1)));
+    const ratio = mean > 0 ? entry.count / mean : entry.count;
+    const zScore = (entry.count - mean) / noise;
+    if (ratio < SPIKE_MIN_RATIO || zScore < SPIKE_MIN_Z_SCORE) continue;
+
+    spikes.push({
+      key,
+      kind: entry.kind,
+      label: entry.label,
+      count: entry.count,
+      baselineMean: mean,
+      ratio,
+      zScore,
+      since,
+      until: now,
+      examples: getSpikeExamples(key, entry, since, now),
+    });
+  }
+
+  return spikes.sort((a, b) => b.zScore - a.zScore);
+}
+
+/**
+ * Recent messages behind a spike, one per thread
+ */
+function getSpikeExamples(key: string, entry: KeyCount, since: Date, until: Date): TrackedMessage[] {
+  const query = entry.kind === 'topic'
+    ? { topic: key.slice('topic:'.length) as Topic }
+    : { channel: 'help', helpTopics: entry.helpTopics };
+  const recent = getStore().findMessages({ ...query, since, until, newestFirst: true, limit: SPIKE_EXAMPLES * 10 });
+
+  const examples: TrackedMessage[] = [];
+  const seen = new Set<string>();
+  for (const msg of recent) {
+    const exampleKey = msg.threadId ?? msg.messageId;
+    if (!exampleKey || seen.has(exampleKey)) continue;
+    seen.add(exampleKey);
+    examples.push(msg);
+    if (examples.length >= SPIKE_EXAMPLES) break;
+  }
+  return examples;
+}
+
+/**
+ * Detect spikes that haven't been alerted within the cooldown
+ */
+export function getNewSpikes(now: Date = new Date()): Spike[] {
+  return detectSpikes(now).filter(spike => {
+    const alertedAt = lastAlerted.get(spike.key);
+    return !alertedAt || now.getTime() - alertedAt.getTime() > ALERT_COOLDOWN_MS;
+  });
+}
+
+/**
+ * Record that a spike's alert was posted, starting its cooldown
+ */
+export function markSpikeAlerted(key: string, now: Date = new Date()): void {
+  lastAlerted.set(key, now);
+  saveTrendAlerts();
+}
+
+/**
+ * Format a trend row's change ("▲ 12 (+40%)", "▼ 3 (-20%)", "new")
+ */
+function formatChange(row: TrendRow): string {
+  if (row.change === null) return row.current > 0 ? '🆕 new' : '—';
+  if (row.delta === 0) return '— no change';
+  const arrow = row.delta > 0 ? '▲' : '▼';
+  const percent = Math.round(row.change * 100);
+  return `${arrow} ${Math.abs(row.delta)} (${percent > 0 ? '+' : ''}${percent}%)`;
+}
+
+/**
+ * Format period-over-period trends for Slack (the last 7 days vs the 7 before by default)
+ */
+export function formatTrendsForSlack(filter: AnalyticsFilter = {}): { text: string; blocks: object[] } {
+  const trends = getTrends(filter);
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  const period = (f: AnalyticsFilter) => `${day(f.since!)} to ${day(new Date(f.until!.getTime() - 1))}`;
+  const channels = filter.channels ? ` in ${filter.channels.map(c => `#${c}`).join(', ')}` : '';
+
+  const topicLines = trends.topics
+    .filter(r => r.current > 0 || r.previous > 0)
+    .map(r => {
+      const topic = r.key.slice('topic:'.length);
+      return `${getTopicEmoji(topic)} *${r.label}*: ${r.current} · ${formatChange(r)}`;
+    });
+  const helpLines = trends.helpTopics
+    .slice(0, 5)
+    .map(r => `• *${r.label}*: ${r.current} · ${formatChange(r)}`);
+
+  if (topicLines.length === 0) {
+    return {
+      text: 'No messages in either period',
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `📈 *Trends*\n\n_No messages between ${day(trends.previous.since!)} and ${day(trends.current.until!)}${channels}._` },
+        },
+      ],
+    };
+  }
+
+  const blocks: object[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: '📈 Trends', emoji: true },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*By topic* (biggest changes first)\n${topicLines.join('\n')}` },
+    },
+  ];
+  if (helpLines.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Help topics* (biggest changes first)\n${helpLines.join('\n')}` },
+    });
+  }
+  blocks.push({
+    type: 'context',
+    elements: [
+      { type: 'mrkdwn', text: `_${period(trends.current)} compared with ${period(trends.previous)}${channels}_` },
+    ],
+  });
+
+  return { text: `Trends for ${period(trends.current)}`, blocks };
+}
+
+/**
+ * Format a spike alert for Slack with example messages linked to Discord
+ */
+export function formatSpikeAlertForSlack(spike: Spike, guildId: string): { text: string; blocks: object[] } {
+  const kind = spike.kind === 'topic' ? 'topic' : 'help topic';
+  const usual = spike.baselineMean < 1 ? 'under 1' : `about ${Math.round(spike.baselineMean)}`;
+  const headline = `*${spike.label}* (${kind}): *${spike.count}* messages in the last 24h, usually ${usual} a day (${spike.ratio.toFixed(1)}x)`;
+
+  const examples = spike.examples.map(msg => {
+    const title = (msg.threadName || msg.content).replace(/\n/g, ' ');
+    const label = (title.length > 80 ? title.substring(0, 80) + '...' : title).replace(/[<>|]/g, '');
+    const url = `https://discord.com/channels/${guildId}/${msg.threadId || msg.channelId}/${msg.messageId}`;
+    return `• <${url}|${label}> — ${msg.author} in #${msg.channel}`;
+  });
+
+  const blocks: object[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: '🚨 Spike detected', emoji: true },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: headline },
+    },
+  ];
+  if (examples.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Examples*\n${examples.join('\n')}` },
+    });
+  }
+  blocks.push({
+    type: 'context',
+    elements: [
+      { type: 'mrkdwn', text: `_Compared with the previous ${BASELINE_WINDOWS} days · ${spike.zScore.toFixed(1)} standard deviations above normal_` },
+    ],
+  });
+
+  return { text: `🚨 Spike: ${spike.label} (${spike.count} in 24h, ${spike.ratio.toFixed(1)}x usual)`, blocks };
+}